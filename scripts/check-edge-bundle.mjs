@@ -0,0 +1,32 @@
+// Bundle the package the way edge runtimes see it (Cloudflare Workers,
+// Vercel Edge, browsers) and fail if any Node built-in is pulled in.
+// Run after `npm run build`.
+
+import { build } from 'esbuild'
+
+const result = await build({
+    stdin: {
+        contents: [
+            "export * from '@vahlcode/og'",
+            "export * from '@vahlcode/og/tanstack'",
+            "export * from '@vahlcode/og/wasm-inline'",
+        ].join('\n'),
+        resolveDir: process.cwd(),
+    },
+    bundle: true,
+    write: false,
+    format: 'esm',
+    platform: 'browser',
+    conditions: ['workerd', 'worker', 'browser'],
+    // Resolve through package.json `exports`, not the tsconfig paths to src
+    tsconfigRaw: {},
+    // Optional native dependencies are only imported when asked for
+    external: ['@resvg/resvg-js', 'sharp'],
+    logLevel: 'silent',
+}).catch((error) => {
+    console.error(error.message)
+    process.exit(1)
+})
+
+const size = result.outputFiles.reduce((total, file) => total + file.contents.length, 0)
+console.log(`✅ Edge bundle built without Node built-ins (${(size / 1024).toFixed(0)} KB)`)
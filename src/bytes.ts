@@ -0,0 +1,92 @@
+/**
+ * Portable byte and base64 helpers.
+ *
+ * Built on `Uint8Array`, `TextEncoder` and `atob`/`btoa` so they work on
+ * edge runtimes (Cloudflare Workers, Deno) without Node's `Buffer`.
+ *
+ * @internal
+ */
+
+/**
+ * Bytes converted per `String.fromCharCode` call. Spreading a very large
+ * array into one call overflows the argument limit of most engines.
+ */
+const CHUNK_SIZE = 0x8000
+
+/**
+ * View any binary value as a `Uint8Array` without copying.
+ */
+export function toBytes(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+    if (data instanceof Uint8Array) return data
+    if (ArrayBuffer.isView(data)) {
+        return new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    }
+    return new Uint8Array(data)
+}
+
+/**
+ * Get an `ArrayBuffer` holding exactly `data`, copying views that don't
+ * span their whole buffer (such as Node's pooled `Buffer`s).
+ */
+export function toArrayBuffer(data: ArrayBuffer | ArrayBufferView): ArrayBuffer {
+    if (data instanceof ArrayBuffer) return data
+    const bytes = toBytes(data)
+    if (
+        bytes.buffer instanceof ArrayBuffer &&
+        bytes.byteOffset === 0 &&
+        bytes.byteLength === bytes.buffer.byteLength
+    ) {
+        return bytes.buffer
+    }
+    return bytes.slice().buffer
+}
+
+/**
+ * Encode bytes as a base64 string.
+ */
+export function bytesToBase64(data: ArrayBuffer | ArrayBufferView): string {
+    const bytes = toBytes(data)
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE))
+    }
+    return btoa(binary)
+}
+
+/**
+ * Decode a base64 string to bytes.
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i)
+    }
+    return bytes
+}
+
+/**
+ * Encode a string as UTF-8, then base64. Unlike a bare `btoa`, this
+ * handles characters outside Latin-1.
+ */
+export function stringToBase64(text: string): string {
+    return bytesToBase64(new TextEncoder().encode(text))
+}
+
+/**
+ * Build a base64 `data:` URI from bytes and a MIME type.
+ */
+export function toDataUri(
+    data: ArrayBuffer | ArrayBufferView,
+    mimeType: string
+): string {
+    return `data:${mimeType};base64,${bytesToBase64(data)}`
+}
+
+/**
+ * Encode SVG markup as a `data:` URI. Data-URIs are passed through.
+ */
+export function svgToDataUri(svg: string): string {
+    if (svg.startsWith('data:')) return svg
+    return `data:image/svg+xml;base64,${stringToBase64(svg)}`
+}
@@ -0,0 +1,145 @@
+import type { ReactElement } from 'react'
+import type {
+    FontConfig,
+    FontCoverageReport,
+    FontProviderOptions,
+    RenderOptions,
+    TextCoverage,
+} from './types'
+import { collectTextNodes, type TextNode } from './element'
+import { readGlyphCoverage } from './font-format'
+import { resolveFont } from './font'
+import { withRenderScope } from './scope'
+
+/** Characters that never need a glyph: whitespace, controls, joiners and variation selectors. */
+const NO_GLYPH_NEEDED = /^[\s\p{Cc}\p{Cf}\u{FE00}-\u{FE0F}\u{E0100}-\u{E01EF}]$/u
+
+/** Glyph lookups, parsed once per font's data. */
+const coverageCache = new WeakMap<ArrayBuffer, ((codePoint: number) => boolean) | undefined>()
+
+/**
+ * Report which characters in an element no font can display.
+ *
+ * Walks the element tree like satori does, matches each text run to a
+ * font by its inherited `fontFamily`, `fontWeight` and `fontStyle`, and
+ * lists the characters missing from every font — satori falls back to
+ * the other fonts before drawing a box. Fonts without `data` are loaded
+ * first, like render `fonts`; pass the font options your renders use so
+ * the same fonts are checked. WOFF fonts can't be inspected and are
+ * assumed to cover everything.
+ *
+ * @param element - The JSX element to check
+ * @param fonts - The fonts the element will be rendered with
+ * @param options - Font provider, registry, `offline`, `fetch` and cancellation
+ *   for loading fonts without `data`
+ * @returns The missing characters, overall and per text run
+ *
+ * @example
+ * ```ts
+ * import { checkFontCoverage } from '@vahlcode/og'
+ *
+ * const { missing } = await checkFontCoverage(<Card title={title} />, fonts)
+ * if (missing.length > 0) console.warn(`No glyphs for: ${missing.join(' ')}`)
+ * ```
+ */
+export function checkFontCoverage(
+    element: ReactElement,
+    fonts: FontConfig[],
+    options: FontProviderOptions & Pick<RenderOptions, 'offline' | 'fontRegistry'> = {}
+): Promise<FontCoverageReport> {
+    const { fontProvider, fetch, offline, fontRegistry } = options
+    return withRenderScope(options, 'fonts', async (scope) => {
+        const resolved = await scope.run('fonts', () =>
+            Promise.all(
+                fonts.map((font) =>
+                    resolveFont(font, {
+                        fontProvider,
+                        fetch,
+                        offline,
+                        fontRegistry,
+                        signal: scope.signal,
+                    })
+                )
+            )
+        )
+        return analyzeCoverage(collectTextNodes(element), resolved)
+    })
+}
+
+/**
+ * Build a {@link FontCoverageReport} for text runs and resolved fonts.
+ * Characters matching `ignore` are never reported.
+ *
+ * @internal
+ */
+export function analyzeCoverage(
+    nodes: TextNode[],
+    fonts: FontConfig[],
+    ignore?: (char: string) => boolean
+): FontCoverageReport {
+    const lookups = fonts.map((font) => glyphCoverage(font))
+    const isCovered = (char: string) => {
+        const codePoint = char.codePointAt(0)!
+        // A font we can't inspect might have it
+        return lookups.some((has) => !has || has(codePoint))
+    }
+
+    const missing = new Set<string>()
+    const report: TextCoverage[] = nodes.map((node) => {
+        const chars = new Set(
+            Array.from(node.text).filter(
+                (char) => !NO_GLYPH_NEEDED.test(char) && !ignore?.(char) && !isCovered(char)
+            )
+        )
+        chars.forEach((char) => missing.add(char))
+        return { text: node.text, font: matchFont(fonts, node), missing: [...chars] }
+    })
+
+    return { missing: [...missing], nodes: report }
+}
+
+function glyphCoverage(font: FontConfig): ((codePoint: number) => boolean) | undefined {
+    if (!font.data) return undefined
+    if (!coverageCache.has(font.data)) {
+        coverageCache.set(font.data, readGlyphCoverage(font.data))
+    }
+    return coverageCache.get(font.data)
+}
+
+/**
+ * Pick the font satori uses for a text run: the first family in its
+ * `fontFamily` that has fonts, else the first font's family; then the
+ * matching style and the nearest weight.
+ */
+function matchFont(fonts: FontConfig[], node: TextNode): FontConfig | undefined {
+    if (fonts.length === 0) return undefined
+
+    const families = (node.fontFamily ?? '')
+        .split(',')
+        .map((family) => family.trim().replace(/^['"]|['"]$/g, '').toLowerCase())
+        .filter(Boolean)
+    const byFamily = (family: string) =>
+        fonts.filter((font) => font.name.toLowerCase() === family)
+    let candidates = families.map(byFamily).find((found) => found.length > 0)
+    candidates ??= byFamily(fonts[0]!.name.toLowerCase())
+
+    const style = node.fontStyle === 'italic' || node.fontStyle === 'oblique' ? 'italic' : 'normal'
+    const styled = candidates.filter((font) => (font.style ?? 'normal') === style)
+    if (styled.length > 0) candidates = styled
+
+    const weight = parseWeight(node.fontWeight)
+    return candidates.reduce((best, font) => {
+        const distance = Math.abs((font.weight ?? 400) - weight)
+        const bestDistance = Math.abs((best.weight ?? 400) - weight)
+        if (distance < bestDistance) return font
+        // Ties go to the lighter weight
+        if (distance === bestDistance && (font.weight ?? 400) < (best.weight ?? 400)) return font
+        return best
+    })
+}
+
+function parseWeight(weight: TextNode['fontWeight']): number {
+    if (weight === 'bold') return 700
+    const value = Number(weight)
+    return Number.isFinite(value) && value > 0 ? value : 400
+}
@@ -0,0 +1,159 @@
+import { cloneElement, createElement, isValidElement } from 'react'
+import type { CSSProperties, ReactNode } from 'react'
+
+/**
+ * A run of text in an element tree with the font styles it inherits.
+ *
+ * @internal
+ */
+export interface TextNode {
+    text: string
+    fontFamily?: string
+    fontWeight?: CSSProperties['fontWeight']
+    fontStyle?: string
+}
+
+/**
+ * Collect the text runs of a React element tree, as satori would see
+ * them, with the `fontFamily`, `fontWeight` and `fontStyle` each inherits
+ * from its ancestors. Function components are called with their props, as
+ * satori does; class components aren't supported by satori and are
+ * skipped.
+ *
+ * @internal
+ */
+export function collectTextNodes(node: ReactNode): TextNode[] {
+    const nodes: TextNode[] = []
+    const visit = (node: ReactNode, inherited: Omit<TextNode, 'text'>): void => {
+        if (node === null || node === undefined || typeof node === 'boolean') return
+        if (typeof node === 'string' || typeof node === 'number') {
+            nodes.push({ ...inherited, text: String(node) })
+            return
+        }
+        if (Array.isArray(node)) {
+            node.forEach((child) => visit(child, inherited))
+            return
+        }
+        if (!isValidElement(node)) return
+
+        const { type, props } = node as {
+            type: unknown
+            props: { children?: ReactNode; style?: CSSProperties }
+        }
+        if (typeof type === 'function') {
+            if (type.prototype?.isReactComponent) return
+            visit((type as (props: unknown) => ReactNode)(props), inherited)
+            return
+        }
+
+        const style = props.style ?? {}
+        visit(props.children, {
+            fontFamily: style.fontFamily ?? inherited.fontFamily,
+            fontWeight: style.fontWeight ?? inherited.fontWeight,
+            fontStyle: style.fontStyle ?? inherited.fontStyle,
+        })
+    }
+    visit(node, {})
+    return nodes
+}
+
+/**
+ * Collect the text content of a React element tree, as satori would see
+ * it.
+ *
+ * @internal
+ */
+export function collectText(node: ReactNode): string {
+    return collectTextNodes(node).map((node) => node.text).join('')
+}
+
+/** `:name:` tokens in text, such as `:arrow-right:`. */
+const ICON_TOKEN = /:([\w-]+):/g
+
+/** Size of the image that replaces a `:name:` token: one line of text. */
+const ICON_STYLE: CSSProperties = { width: '1em', height: '1em' }
+
+/**
+ * Lays out text and the images replacing its tokens in a row.
+ */
+const ICON_TEXT_STYLE: CSSProperties = { display: 'flex', alignItems: 'center' }
+
+/**
+ * Replace `:name:` tokens in the text of a React element tree with
+ * `<img>`s the size of the text, in a `<span>` with the rest of the
+ * text. `load` maps a name to an image URL or data-URI; tokens it
+ * returns `undefined` for are left as text. Function components are
+ * expanded, as satori does.
+ *
+ * @internal
+ */
+export async function replaceIconTokens(
+    node: ReactNode,
+    load: (name: string) => Promise<string | undefined>
+): Promise<ReactNode> {
+    const names = new Set(
+        collectTextNodes(node).flatMap(({ text }) =>
+            [...text.matchAll(ICON_TOKEN)].map(([, name]) => name!)
+        )
+    )
+    if (names.size === 0) return node
+
+    const images = new Map(
+        await Promise.all([...names].map(async (name) => [name, await load(name)] as const))
+    )
+
+    return mapText(node, (text) => {
+        const parts: ReactNode[] = []
+        let last = 0
+        for (const match of text.matchAll(ICON_TOKEN)) {
+            const src = images.get(match[1]!)
+            if (!src) continue
+            parts.push(
+                text.slice(last, match.index),
+                createElement('img', { key: parts.length, src, style: ICON_STYLE })
+            )
+            last = match.index! + match[0].length
+        }
+        if (last === 0) return text
+        parts.push(text.slice(last))
+        return createElement(
+            'span',
+            { style: ICON_TEXT_STYLE },
+            ...parts.filter((part) => part !== '')
+        )
+    })
+}
+
+/**
+ * Rebuild a React element tree with each string run passed through
+ * `replace`. Unchanged subtrees are returned as-is.
+ *
+ * Satori rejects a `<div>` with element children unless it sets
+ * `display`. Since satori lays every element out as flex anyway, a
+ * `<div>` whose text was replaced gets an explicit `display: flex`.
+ */
+function mapText(node: ReactNode, replace: (text: string) => ReactNode): ReactNode {
+    if (typeof node === 'string') return replace(node)
+    if (Array.isArray(node)) {
+        const mapped = node.map((child) => mapText(child, replace))
+        return mapped.every((child, i) => child === node[i]) ? node : mapped
+    }
+    if (!isValidElement(node)) return node
+
+    const { type, props } = node as {
+        type: unknown
+        props: { children?: ReactNode; style?: CSSProperties }
+    }
+    if (typeof type === 'function') {
+        if (type.prototype?.isReactComponent) return node
+        return mapText((type as (props: unknown) => ReactNode)(props), replace)
+    }
+
+    const children = mapText(props.children, replace)
+    if (children === props.children) return node
+    const style =
+        type === 'div' && !props.style?.display
+            ? { ...props.style, display: 'flex' }
+            : props.style
+    return cloneElement(node, { children, style } as object)
+}
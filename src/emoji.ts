@@ -0,0 +1,149 @@
+import { LRUCache } from './cache'
+import { svgToDataUri } from './bytes'
+import { joinPath, readTextFile, toPath } from './runtime'
+import type { EmojiPack, EmojiSet, RenderOptions } from './types'
+
+/**
+ * CDN that emoji SVGs are fetched from, unless `emojiBaseUrl` is set.
+ */
+const DEFAULT_EMOJI_BASE_URL = 'https://cdn.jsdelivr.net'
+
+/** Fetched and read emoji, as data-URIs, by URL or file path. */
+const emojiCache = new LRUCache<string, string>({
+    maxSize: 500,
+    ttl: 24 * 60 * 60 * 1000, // 1 day
+})
+
+const ZWJ = 0x200d
+const VARIATION_SELECTOR_16 = 0xfe0f
+
+/**
+ * Twemoji-style code: lowercase hex code points joined by `-`. The emoji
+ * presentation selector is dropped unless the sequence has a zero-width
+ * joiner, matching how Twemoji and OpenMoji name their files.
+ */
+function sequenceCode(codes: number[]): string {
+    const kept = codes.includes(ZWJ)
+        ? codes
+        : codes.filter((code) => code !== VARIATION_SELECTOR_16)
+    return kept.map((code) => code.toString(16)).join('-')
+}
+
+/**
+ * Where each emoji set lives on the CDN, and how it names its files.
+ */
+const EMOJI_SETS: Record<EmojiSet, { path: string; filename: (codes: number[]) => string }> = {
+    twemoji: {
+        path: '/gh/twitter/twemoji@latest/assets/svg',
+        filename: (codes) => `${sequenceCode(codes)}.svg`,
+    },
+    openmoji: {
+        path: '/npm/openmoji@latest/color/svg',
+        filename: (codes) => `${sequenceCode(codes).toUpperCase()}.svg`,
+    },
+    noto: {
+        path: '/gh/googlefonts/noto-emoji/svg',
+        // Noto drops every presentation selector and pads to 4 digits
+        filename: (codes) =>
+            `emoji_u${codes
+                .filter((code) => code !== VARIATION_SELECTOR_16)
+                .map((code) => code.toString(16).padStart(4, '0'))
+                .join('_')}.svg`,
+    },
+    fluent: {
+        path: '/gh/shuding/fluentui-emoji-unicode/assets',
+        filename: (codes) => `${sequenceCode(codes)}_color.svg`,
+    },
+}
+
+/**
+ * The file name `set` uses for the emoji `segment`, which may be a
+ * sequence: ZWJ sequences, skin tones, flags and keycaps all have their
+ * own file.
+ *
+ * @example
+ * ```ts
+ * emojiFilename('twemoji', '👩🏽‍💻') // "1f469-1f3fd-200d-1f4bb.svg"
+ * emojiFilename('noto', '🇯🇵') // "emoji_u1f1ef_1f1f5.svg"
+ * ```
+ *
+ * @internal
+ */
+export function emojiFilename(set: EmojiSet, segment: string): string {
+    const codes = [...segment].map((char) => char.codePointAt(0)!)
+    return EMOJI_SETS[set].filename(codes)
+}
+
+/**
+ * Load the emoji `segment` as an SVG data-URI for satori.
+ *
+ * The `emojiPack` is checked first. The CDN for the `emoji` set is only
+ * used when `emoji` is set, so a pack on its own never touches the
+ * network. Returns `undefined` for emoji that aren't found.
+ *
+ * @internal
+ */
+export async function loadEmoji(
+    segment: string,
+    options: Pick<RenderOptions, 'emoji' | 'emojiPack' | 'emojiBaseUrl' | 'fetch' | 'signal'>
+): Promise<string | undefined> {
+    const set = options.emoji ?? 'twemoji'
+    const filename = emojiFilename(set, segment)
+
+    if (options.emojiPack) {
+        const local = await loadFromPack(options.emojiPack, segment, filename)
+        if (local || !options.emoji) return local
+    }
+
+    const baseUrl = (options.emojiBaseUrl ?? DEFAULT_EMOJI_BASE_URL).replace(/\/+$/, '')
+    const url = `${baseUrl}${EMOJI_SETS[set].path}/${filename}`
+    const cached = emojiCache.get(url)
+    if (cached) return cached
+
+    const fetch = options.fetch ?? globalThis.fetch
+    const response = await fetch(url, { signal: options.signal })
+    if (!response.ok) return undefined
+
+    const dataUri = svgToDataUri(await response.text())
+    emojiCache.set(url, dataUri)
+    return dataUri
+}
+
+/**
+ * Look `segment` up in a pack: by the emoji itself (with or without its
+ * presentation selectors) in a map, or by `filename` in a directory.
+ */
+async function loadFromPack(
+    pack: EmojiPack,
+    segment: string,
+    filename: string
+): Promise<string | undefined> {
+    if (typeof pack === 'object' && !(pack instanceof URL)) {
+        const svg = pack[segment] ?? pack[segment.replace(/\uFE0F/g, '')]
+        return svg === undefined ? undefined : svgToDataUri(svg)
+    }
+
+    const file = joinPath(toPath(pack), filename)
+    const cached = emojiCache.get(file)
+    if (cached) return cached
+
+    let svg: string
+    try {
+        svg = await readTextFile(file)
+    } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return undefined
+        throw error
+    }
+
+    const dataUri = svgToDataUri(svg)
+    emojiCache.set(file, dataUri)
+    return dataUri
+}
+
+/**
+ * Clear the emoji cache.
+ * Useful for testing or freeing memory in long-running processes.
+ */
+export function clearEmojiCache(): void {
+    emojiCache.clear()
+}
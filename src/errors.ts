@@ -0,0 +1,160 @@
+import type { FontFormat, ImageBlockReason, RenderPhase } from './types'
+
+/**
+ * Thrown when a render (or a standalone font/image fetch) is cancelled
+ * through its `signal`.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await renderToPng(element, { signal })
+ * } catch (error) {
+ *   if (error instanceof RenderAbortError) console.warn(`aborted in ${error.phase}`)
+ * }
+ * ```
+ */
+export class RenderAbortError extends Error {
+    override name = 'RenderAbortError'
+    /** The phase that was running when the render was cancelled. */
+    readonly phase: RenderPhase
+
+    constructor(phase: RenderPhase, message?: string, options?: ErrorOptions) {
+        super(message ?? `Render aborted during ${phase}`, options)
+        this.phase = phase
+    }
+}
+
+/**
+ * Thrown when a render (or a standalone font/image fetch) exceeds its
+ * `timeoutMs`.
+ */
+export class RenderTimeoutError extends RenderAbortError {
+    override name = 'RenderTimeoutError'
+    /** The timeout that was exceeded, in milliseconds. */
+    readonly timeoutMs: number
+
+    constructor(phase: RenderPhase, timeoutMs: number) {
+        super(phase, `Render timed out after ${timeoutMs}ms during ${phase}`)
+        this.timeoutMs = timeoutMs
+    }
+}
+
+/**
+ * Thrown when a render is rejected because its {@link RenderQueue} is full.
+ * {@link createImageResponse} turns it into a `503` with `Retry-After`.
+ */
+export class RenderQueueFullError extends Error {
+    override name = 'RenderQueueFullError'
+    /** Suggested delay before retrying, in seconds. */
+    readonly retryAfter: number
+
+    constructor(retryAfter: number) {
+        super('Render queue is full')
+        this.retryAfter = retryAfter
+    }
+}
+
+/**
+ * Thrown when font data is in a format satori can't parse, such as WOFF2,
+ * or isn't a font at all. Raised when the font is loaded, before layout.
+ */
+export class FontFormatError extends Error {
+    override name = 'FontFormatError'
+    /** The detected format, or `undefined` if the data isn't a known font. */
+    readonly format: FontFormat | undefined
+
+    constructor(message: string, format: FontFormat | undefined) {
+        super(message)
+        this.format = format
+    }
+}
+
+/**
+ * Thrown when {@link fetchImage} can't fetch an image. Subclasses report
+ * why the fetch options rejected it.
+ */
+export class ImageFetchError extends Error {
+    override name = 'ImageFetchError'
+    /** The requested image URL. */
+    readonly url: string
+
+    constructor(message: string, url: string, options?: ErrorOptions) {
+        super(message, options)
+        this.url = url
+    }
+}
+
+/**
+ * Thrown when an image URL, or a URL it redirects to, is refused by
+ * `allowedHosts`, `deniedHosts` or `blockPrivateAddresses`, or isn't
+ * http(s).
+ */
+export class ImageBlockedError extends ImageFetchError {
+    override name = 'ImageBlockedError'
+    /** Which rule refused the URL. */
+    readonly reason: ImageBlockReason
+
+    constructor(message: string, url: string, reason: ImageBlockReason) {
+        super(message, url)
+        this.reason = reason
+    }
+}
+
+/**
+ * Thrown when an image is larger than `maxBytes`. The download is
+ * cancelled as soon as the limit is passed.
+ */
+export class ImageTooLargeError extends ImageFetchError {
+    override name = 'ImageTooLargeError'
+    /** The limit that was exceeded, in bytes. */
+    readonly maxBytes: number
+
+    constructor(message: string, url: string, maxBytes: number) {
+        super(message, url)
+        this.maxBytes = maxBytes
+    }
+}
+
+/**
+ * Thrown when an image's MIME type isn't in `allowedTypes`.
+ */
+export class ImageTypeError extends ImageFetchError {
+    override name = 'ImageTypeError'
+    /** The MIME type the server sent. */
+    readonly mimeType: string
+
+    constructor(message: string, url: string, mimeType: string) {
+        super(message, url)
+        this.mimeType = mimeType
+    }
+}
+
+/**
+ * Thrown when an image redirects more than `maxRedirects` times.
+ */
+export class ImageRedirectError extends ImageFetchError {
+    override name = 'ImageRedirectError'
+    /** The redirect limit that was exceeded. */
+    readonly maxRedirects: number
+
+    constructor(message: string, url: string, maxRedirects: number) {
+        super(message, url)
+        this.maxRedirects = maxRedirects
+    }
+}
+
+/**
+ * Thrown when an image is in a format the renderer can't decode (WebP,
+ * AVIF, animated GIF) and there is no way to transcode it to PNG, or
+ * isn't a recognised image at all.
+ */
+export class ImageFormatError extends ImageFetchError {
+    override name = 'ImageFormatError'
+    /** The image's MIME type. */
+    readonly mimeType: string
+
+    constructor(message: string, url: string, mimeType: string) {
+        super(message, url)
+        this.mimeType = mimeType
+    }
+}
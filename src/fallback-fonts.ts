@@ -0,0 +1,75 @@
+import type { FallbackFonts, FontConfig, RenderOptions } from './types'
+import { resolveFont } from './font'
+
+/**
+ * Google Noto families for each language code satori reports for text
+ * the main fonts can't display. Pass `fallbackFonts: true` to use them,
+ * or spread them into your own map.
+ */
+export const NOTO_FALLBACK_FONTS: Readonly<FallbackFonts> = {
+    'ja-JP': 'Noto Sans JP',
+    'ko-KR': 'Noto Sans KR',
+    'zh-CN': 'Noto Sans SC',
+    'zh-TW': 'Noto Sans TC',
+    'zh-HK': 'Noto Sans HK',
+    'th-TH': 'Noto Sans Thai',
+    'bn-IN': 'Noto Sans Bengali',
+    'ar-AR': 'Noto Sans Arabic',
+    'ta-IN': 'Noto Sans Tamil',
+    'ml-IN': 'Noto Sans Malayalam',
+    'he-IL': 'Noto Sans Hebrew',
+    'te-IN': 'Noto Sans Telugu',
+    devanagari: 'Noto Sans Devanagari',
+    kannada: 'Noto Sans Kannada',
+    symbol: 'Noto Sans Symbols',
+    math: 'Noto Sans Math',
+    unknown: 'Noto Sans',
+}
+
+/**
+ * Pick the fallback for a satori language code: an exact match first,
+ * then the bare language (`ja` for `ja-JP`).
+ *
+ * @internal
+ */
+export function findFallbackFont(
+    fallbacks: FallbackFonts,
+    languageCode: string
+): string | FontConfig | undefined {
+    return fallbacks[languageCode] ?? fallbacks[languageCode.split('-')[0]!]
+}
+
+/**
+ * Load a fallback font subset to `segment`, once per weight the main
+ * fonts use so bold text stays bold. Fonts given as `data` or `url`, or
+ * with a fixed `weight`, are loaded as-is.
+ *
+ * Results are cached with the rest of the fonts, keyed by the segment's
+ * character set.
+ *
+ * @internal
+ */
+export async function loadFallbackFonts(
+    fallback: string | FontConfig,
+    segment: string,
+    weights: NonNullable<FontConfig['weight']>[],
+    options: Pick<
+        RenderOptions,
+        'offline' | 'fontRegistry' | 'fontProvider' | 'fetch' | 'signal'
+    >
+): Promise<FontConfig[]> {
+    const font = typeof fallback === 'string' ? { name: fallback } : fallback
+    if (font.data || font.url || font.weight) {
+        return [await resolveFont(font, options)]
+    }
+
+    const load = (weight: NonNullable<FontConfig['weight']>) =>
+        resolveFont({ ...font, weight }, { ...options, text: segment })
+    try {
+        return await Promise.all(weights.map(load))
+    } catch (error) {
+        // Not every family has every weight (Noto Sans Math is 400 only)
+        if (options.signal?.aborted || weights.every((w) => w === 400)) throw error
+        return [await load(400)]
+    }
+}
@@ -0,0 +1,335 @@
+/**
+ * Guards for fetching untrusted image URLs: host rules, private address
+ * blocking, redirect limits, MIME type and size limits.
+ *
+ * @internal
+ */
+
+import type { FetchFunction, FetchImageOptions } from './types'
+import {
+    ImageBlockedError,
+    ImageFetchError,
+    ImageRedirectError,
+    ImageTooLargeError,
+    ImageTypeError,
+} from './errors'
+import { createPinnedFetch, lookupHost } from './runtime'
+
+/** Redirects followed when `maxRedirects` isn't set, as `fetch` does. */
+const DEFAULT_MAX_REDIRECTS = 20
+
+/** A `fetch` that can only connect to public addresses, created on first use. */
+let publicFetch: { fetch: FetchFunction | undefined } | undefined
+
+/**
+ * Whether any option that needs the guarded fetch is set.
+ */
+export function hasFetchGuards(options: FetchImageOptions): boolean {
+    return (
+        options.allowedHosts !== undefined ||
+        options.deniedHosts !== undefined ||
+        options.blockPrivateAddresses === true ||
+        options.maxRedirects !== undefined ||
+        options.maxBytes !== undefined
+    )
+}
+
+/**
+ * Fetch `url`, following redirects by hand so every hop is checked
+ * against the host rules and private address blocking.
+ *
+ * With `blockPrivateAddresses` and no custom `fetch`, Node connects
+ * only to public addresses, so a hostname that passes the check can't
+ * re-resolve to a private address for the request (DNS rebinding). A
+ * custom `fetch` gets the check alone.
+ */
+export async function guardedFetch(
+    url: string,
+    options: FetchImageOptions,
+    signal: AbortSignal | undefined
+): Promise<Response> {
+    const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS
+    const fetch =
+        options.fetch ??
+        (options.blockPrivateAddresses ? getPublicFetch() : undefined) ??
+        globalThis.fetch
+    let current = new URL(url)
+
+    for (let redirects = 0; ; redirects++) {
+        await checkUrl(current, options)
+        let response: Response
+        try {
+            response = await fetch(current.href, { signal, redirect: 'manual' })
+        } catch (error) {
+            const address = blockedAddress(error)
+            if (address === undefined) throw error
+            throw new ImageBlockedError(
+                `Image URL "${current.href}" is blocked: "${current.hostname}" is a private address (${address})`,
+                current.href,
+                'private-address'
+            )
+        }
+        const location = response.headers.get('location')
+        if (response.status < 300 || response.status >= 400 || !location) return response
+
+        await response.body?.cancel()
+        if (redirects >= maxRedirects) {
+            throw new ImageRedirectError(
+                `Image "${url}" redirected more than ${maxRedirects} times`,
+                url,
+                maxRedirects
+            )
+        }
+        current = new URL(location, current)
+    }
+}
+
+/**
+ * The pinned `fetch` for `blockPrivateAddresses`, where the runtime
+ * supports one.
+ */
+function getPublicFetch(): FetchFunction | undefined {
+    publicFetch ??= { fetch: createPinnedFetch((address) => !isPrivateAddress(address)) }
+    return publicFetch.fetch
+}
+
+/**
+ * The address a pinned connection refused, found in the `cause` chain of
+ * a fetch error.
+ */
+function blockedAddress(error: unknown): string | undefined {
+    for (let cause = error; cause instanceof Error; cause = cause.cause) {
+        const { code, address } = cause as { code?: string; address?: string }
+        if (code === 'EADDRBLOCKED') return address
+    }
+    return undefined
+}
+
+/**
+ * Throw an {@link ImageBlockedError} unless `url` may be fetched.
+ */
+async function checkUrl(url: URL, options: FetchImageOptions): Promise<void> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ImageBlockedError(
+            `Image URL "${url.href}" is blocked: only http and https are allowed`,
+            url.href,
+            'protocol'
+        )
+    }
+
+    const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+    const denied = options.deniedHosts?.some((pattern) => matchesHost(host, pattern))
+    const allowed =
+        !options.allowedHosts || options.allowedHosts.some((pattern) => matchesHost(host, pattern))
+    if (denied || !allowed) {
+        throw new ImageBlockedError(
+            `Image URL "${url.href}" is blocked: host "${host}" is not allowed`,
+            url.href,
+            'host'
+        )
+    }
+
+    if (options.blockPrivateAddresses) {
+        const addresses = await resolveHost(host, url.href)
+        if (!addresses) {
+            throw new ImageBlockedError(
+                `Image URL "${url.href}" is blocked: "${host}" can't be resolved on this runtime to rule out a private address. Use an IP address.`,
+                url.href,
+                'private-address'
+            )
+        }
+        const address = addresses.find(isPrivateAddress)
+        if (address !== undefined) {
+            throw new ImageBlockedError(
+                `Image URL "${url.href}" is blocked: "${host}" is a private address (${address})`,
+                url.href,
+                'private-address'
+            )
+        }
+    }
+}
+
+/**
+ * Match a hostname against an exact name, a `*.example.com` wildcard
+ * (subdomains only) or a regular expression.
+ */
+function matchesHost(host: string, pattern: string | RegExp): boolean {
+    if (pattern instanceof RegExp) return pattern.test(host)
+    const name = pattern.toLowerCase()
+    return name.startsWith('*.') ? host.endsWith(name.slice(1)) : host === name
+}
+
+/**
+ * The addresses `host` stands for: itself if it's an IP address, or its
+ * DNS records. `undefined` on edge runtimes, where hostnames other than
+ * `localhost` can't be resolved. Lookup failures throw an
+ * {@link ImageFetchError}.
+ */
+async function resolveHost(host: string, url: string): Promise<string[] | undefined> {
+    if (parseIPv4(host) || parseIPv6(host)) return [host]
+    if (host === 'localhost' || host.endsWith('.localhost')) return ['127.0.0.1']
+    try {
+        return await lookupHost(host)
+    } catch (error) {
+        const code = (error as { code?: string }).code
+        throw new ImageFetchError(
+            `Failed to resolve "${host}" for image "${url}"${code ? ` (${code})` : ''}`,
+            url,
+            { cause: error }
+        )
+    }
+}
+
+/**
+ * Whether `address` is loopback, private, link-local, shared (CGNAT),
+ * multicast, reserved or unspecified, i.e. anything but a public
+ * unicast address. Non-IP input is never private.
+ *
+ * @internal
+ */
+export function isPrivateAddress(address: string): boolean {
+    const v4 = parseIPv4(address)
+    if (v4) return isPrivateIPv4(v4)
+
+    const v6 = parseIPv6(address)
+    if (!v6) return false
+
+    // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+    const embedsV4 =
+        (v6.slice(0, 5).every((part) => part === 0) && v6[5] === 0xffff) ||
+        (v6[0] === 0x64 && v6[1] === 0xff9b && v6.slice(2, 6).every((part) => part === 0))
+    if (embedsV4) {
+        return isPrivateIPv4([v6[6]! >> 8, v6[6]! & 0xff, v6[7]! >> 8, v6[7]! & 0xff])
+    }
+
+    const first = v6[0]!
+    return (
+        v6.slice(0, 7).every((part) => part === 0) || // :: and ::1
+        (first & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+        (first & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+        (first & 0xffc0) === 0xfec0 || // fec0::/10 site-local
+        (first & 0xff00) === 0xff00 || // ff00::/8 multicast
+        (first === 0x2001 && v6[1] === 0x0db8) // 2001:db8::/32 documentation
+    )
+}
+
+/**
+ * {@link isPrivateAddress} for the octets of an IPv4 address.
+ */
+function isPrivateIPv4([a, b]: number[]): boolean {
+    return (
+        a === 0 || // "this" network
+        a === 10 ||
+        a === 127 ||
+        (a === 100 && b! >= 64 && b! < 128) || // shared address space (CGNAT)
+        (a === 169 && b === 254) || // link-local, cloud metadata
+        (a === 172 && b! >= 16 && b! < 32) ||
+        (a === 192 && b === 168) ||
+        (a === 192 && b === 0) || // IETF protocol assignments
+        (a === 198 && (b === 18 || b === 19)) || // benchmarking
+        a! >= 224 // multicast, reserved and broadcast
+    )
+}
+
+/**
+ * Parse a dotted-quad IPv4 address into its four octets.
+ */
+function parseIPv4(address: string): number[] | undefined {
+    const parts = address.split('.')
+    if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return undefined
+    const octets = parts.map(Number)
+    return octets.every((octet) => octet <= 255) ? octets : undefined
+}
+
+/**
+ * Parse an IPv6 address, including `::` and a trailing dotted-quad,
+ * into its eight 16-bit groups.
+ */
+function parseIPv6(address: string): number[] | undefined {
+    if (!address.includes(':')) return undefined
+    const [head = '', tail, ...rest] = address.replace(/%.*$/, '').split('::')
+    if (rest.length > 0) return undefined
+
+    const groups = (part: string): number[] | undefined => {
+        if (part === '') return []
+        const result: number[] = []
+        for (const group of part.split(':')) {
+            const v4 = group.includes('.') ? parseIPv4(group) : undefined
+            if (v4) result.push((v4[0]! << 8) | v4[1]!, (v4[2]! << 8) | v4[3]!)
+            else if (/^[0-9a-f]{1,4}$/i.test(group)) result.push(parseInt(group, 16))
+            else return undefined
+        }
+        return result
+    }
+
+    const start = groups(head)
+    const end = tail === undefined ? [] : groups(tail)
+    if (!start || !end) return undefined
+    if (tail === undefined) return start.length === 8 ? start : undefined
+    if (start.length + end.length > 7) return undefined
+    return [...start, ...Array<number>(8 - start.length - end.length).fill(0), ...end]
+}
+
+/**
+ * Throw an {@link ImageTypeError} unless `mimeType` matches one of
+ * `allowedTypes` (`"image/png"`, or `"image/*"` for any image).
+ */
+export function checkMimeType(url: string, mimeType: string, allowedTypes: string[]): void {
+    const allowed = allowedTypes.some((type) =>
+        type.endsWith('/*')
+            ? mimeType.startsWith(type.slice(0, -1))
+            : mimeType === type.toLowerCase()
+    )
+    if (!allowed) {
+        throw new ImageTypeError(
+            `Image "${url}" is ${mimeType}, which is not an allowed type (${allowedTypes.join(', ')})`,
+            url,
+            mimeType
+        )
+    }
+}
+
+/**
+ * Read a response body, throwing an {@link ImageTooLargeError} as soon
+ * as it is known to exceed `maxBytes`: from `Content-Length`, or while
+ * streaming.
+ */
+export async function readBody(
+    response: Response,
+    url: string,
+    maxBytes: number | undefined
+): Promise<Uint8Array> {
+    if (maxBytes === undefined || !response.body) {
+        return new Uint8Array(await response.arrayBuffer())
+    }
+
+    const tooLarge = () =>
+        new ImageTooLargeError(`Image "${url}" is larger than ${maxBytes} bytes`, url, maxBytes)
+
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+        await response.body.cancel()
+        throw tooLarge()
+    }
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let size = 0
+    for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        size += value.byteLength
+        if (size > maxBytes) {
+            await reader.cancel()
+            throw tooLarge()
+        }
+        chunks.push(value)
+    }
+
+    const bytes = new Uint8Array(size)
+    let offset = 0
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset)
+        offset += chunk.byteLength
+    }
+    return bytes
+}
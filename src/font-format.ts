@@ -0,0 +1,261 @@
+import type { FontConfig, FontFormat } from './types'
+import { FontFormatError } from './errors'
+import { toBytes } from './bytes'
+
+/** Leading four bytes of each font format, as a big-endian tag. */
+const FONT_SIGNATURES: Record<number, FontFormat> = {
+    0x00010000: 'ttf',
+    0x74727565: 'ttf', // 'true' (legacy Apple TrueType)
+    0x4f54544f: 'otf', // 'OTTO'
+    0x774f4646: 'woff', // 'wOFF'
+    0x774f4632: 'woff2', // 'wOF2'
+}
+
+/**
+ * Detect a font's format from its leading bytes.
+ *
+ * @internal
+ */
+export function detectFontFormat(
+    data: ArrayBuffer | ArrayBufferView
+): FontFormat | undefined {
+    const bytes = toBytes(data)
+    if (bytes.byteLength < 4) return undefined
+    const tag = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0)
+    return FONT_SIGNATURES[tag]
+}
+
+/**
+ * Throw a {@link FontFormatError} unless `data` is a font satori can parse.
+ * `source` names where the data came from, for the error message.
+ *
+ * @internal
+ */
+export function assertSupportedFont(data: ArrayBuffer, source: string): void {
+    const format = detectFontFormat(data)
+    if (format === 'woff2') {
+        throw new FontFormatError(
+            `${source} is WOFF2, which satori can't parse. Use a TTF, OTF or WOFF file instead.`,
+            format
+        )
+    }
+    if (!format) {
+        throw new FontFormatError(
+            `${source} is not a TTF, OTF or WOFF font.`,
+            undefined
+        )
+    }
+}
+
+/**
+ * Family, weight and style read from a font's own tables.
+ *
+ * @internal
+ */
+export interface FontMetadata {
+    family?: string
+    weight?: NonNullable<FontConfig['weight']>
+    style?: NonNullable<FontConfig['style']>
+}
+
+/**
+ * Read the family (`name` table), weight and style (`OS/2` table) of a
+ * TTF or OTF font. Fields that can't be read are left out; WOFF data,
+ * whose tables are compressed, yields `{}`.
+ *
+ * @internal
+ */
+export function readFontMetadata(data: ArrayBuffer | ArrayBufferView): FontMetadata {
+    const format = detectFontFormat(data)
+    if (format !== 'ttf' && format !== 'otf') return {}
+
+    const bytes = toBytes(data)
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const metadata: FontMetadata = {}
+
+    try {
+        const tables = readTableDirectory(view)
+
+        const os2 = tables.get('OS/2')
+        if (os2 && os2.length >= 64) {
+            const weightClass = view.getUint16(os2.offset + 4)
+            const weight = Math.min(900, Math.max(100, Math.round(weightClass / 100) * 100))
+            metadata.weight = weight as FontMetadata['weight']
+            // fsSelection bit 0: italic
+            metadata.style = view.getUint16(os2.offset + 62) & 1 ? 'italic' : 'normal'
+        }
+
+        const name = tables.get('name')
+        if (name) {
+            // Prefer the typographic family (16) over the legacy family (1),
+            // which includes non-RIBBI styles like "Inter Medium"
+            metadata.family =
+                readName(view, name.offset, 16) ?? readName(view, name.offset, 1)
+        }
+    } catch (error) {
+        // Truncated tables: keep whatever was read
+        if (!(error instanceof RangeError)) throw error
+    }
+
+    return metadata
+}
+
+/**
+ * Read the sfnt table directory: tag → offset and length.
+ */
+function readTableDirectory(
+    view: DataView
+): Map<string, { offset: number; length: number }> {
+    const tables = new Map<string, { offset: number; length: number }>()
+    const numTables = view.getUint16(4)
+    for (let i = 0; i < numTables; i++) {
+        const record = 12 + i * 16
+        if (record + 16 > view.byteLength) break
+        const tag = String.fromCharCode(
+            view.getUint8(record),
+            view.getUint8(record + 1),
+            view.getUint8(record + 2),
+            view.getUint8(record + 3)
+        )
+        const offset = view.getUint32(record + 8)
+        const length = view.getUint32(record + 12)
+        if (offset + length <= view.byteLength) tables.set(tag, { offset, length })
+    }
+    return tables
+}
+
+/**
+ * Read a string from the `name` table, preferring the Windows (UTF-16BE)
+ * US-English record over Macintosh (Latin-1) ones.
+ */
+function readName(view: DataView, table: number, nameId: number): string | undefined {
+    const count = view.getUint16(table + 2)
+    const storage = table + view.getUint16(table + 4)
+    let fallback: string | undefined
+
+    for (let i = 0; i < count; i++) {
+        const record = table + 6 + i * 12
+        if (view.getUint16(record + 6) !== nameId) continue
+
+        const platform = view.getUint16(record)
+        const language = view.getUint16(record + 4)
+        const length = view.getUint16(record + 8)
+        const start = storage + view.getUint16(record + 10)
+        if (start + length > view.byteLength) continue
+
+        let value = ''
+        if (platform === 3 || platform === 0) {
+            for (let j = 0; j + 1 < length; j += 2) {
+                value += String.fromCharCode(view.getUint16(start + j))
+            }
+            if (platform === 3 && language === 0x409) return value
+        } else {
+            for (let j = 0; j < length; j++) {
+                value += String.fromCharCode(view.getUint8(start + j))
+            }
+        }
+        fallback ??= value
+    }
+    return fallback
+}
+
+/**
+ * Read a TTF or OTF font's `cmap` table and return a test for whether it
+ * has a glyph for a code point. Returns `undefined` when the font has no
+ * usable Unicode `cmap`, or is WOFF data, whose tables are compressed.
+ *
+ * @internal
+ */
+export function readGlyphCoverage(
+    data: ArrayBuffer | ArrayBufferView
+): ((codePoint: number) => boolean) | undefined {
+    const format = detectFontFormat(data)
+    if (format !== 'ttf' && format !== 'otf') return undefined
+
+    const bytes = toBytes(data)
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    try {
+        const cmap = readTableDirectory(view).get('cmap')
+        if (!cmap) return undefined
+
+        // Unicode subtables, best first: full repertoire, then BMP only
+        const subtables = new Map<string, number>()
+        const numTables = view.getUint16(cmap.offset + 2)
+        for (let i = 0; i < numTables; i++) {
+            const record = cmap.offset + 4 + i * 8
+            const platform = view.getUint16(record)
+            const encoding = view.getUint16(record + 2)
+            const offset = cmap.offset + view.getUint32(record + 4)
+            subtables.set(`${platform},${encoding}`, offset)
+        }
+        for (const key of ['3,10', '0,6', '0,4', '3,1', '0,3', '0,2', '0,1', '0,0']) {
+            const offset = subtables.get(key)
+            if (offset === undefined) continue
+            const coverage = readCmapSubtable(view, offset)
+            if (coverage) return coverage
+        }
+    } catch (error) {
+        if (!(error instanceof RangeError)) throw error
+    }
+    return undefined
+}
+
+/**
+ * Build a glyph lookup for a format 4 or format 12 `cmap` subtable.
+ */
+function readCmapSubtable(
+    view: DataView,
+    offset: number
+): ((codePoint: number) => boolean) | undefined {
+    const format = view.getUint16(offset)
+
+    if (format === 4) {
+        const segCount = view.getUint16(offset + 6) / 2
+        const endCodes = offset + 14
+        const startCodes = endCodes + segCount * 2 + 2
+        const idDeltas = startCodes + segCount * 2
+        const idRangeOffsets = idDeltas + segCount * 2
+        // Touch the last field so a truncated table fails here, not per lookup
+        view.getUint16(idRangeOffsets + segCount * 2 - 2)
+
+        return (codePoint) => {
+            if (codePoint > 0xffff) return false
+            for (let i = 0; i < segCount; i++) {
+                if (codePoint > view.getUint16(endCodes + i * 2)) continue
+                const start = view.getUint16(startCodes + i * 2)
+                if (codePoint < start) return false
+
+                const delta = view.getUint16(idDeltas + i * 2)
+                const rangeOffsetAt = idRangeOffsets + i * 2
+                const rangeOffset = view.getUint16(rangeOffsetAt)
+                if (rangeOffset === 0) return ((codePoint + delta) & 0xffff) !== 0
+
+                const glyphAt = rangeOffsetAt + rangeOffset + (codePoint - start) * 2
+                if (glyphAt + 2 > view.byteLength) return false
+                const glyph = view.getUint16(glyphAt)
+                return glyph !== 0 && ((glyph + delta) & 0xffff) !== 0
+            }
+            return false
+        }
+    }
+
+    if (format === 12) {
+        const groups: [start: number, end: number, glyph: number][] = []
+        const count = view.getUint32(offset + 12)
+        for (let i = 0; i < count; i++) {
+            const group = offset + 16 + i * 12
+            groups.push([
+                view.getUint32(group),
+                view.getUint32(group + 4),
+                view.getUint32(group + 8),
+            ])
+        }
+        return (codePoint) =>
+            groups.some(
+                ([start, end, glyph]) =>
+                    codePoint >= start && codePoint <= end && glyph + codePoint - start !== 0
+            )
+    }
+
+    return undefined
+}
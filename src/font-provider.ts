@@ -0,0 +1,152 @@
+import type {
+    FontConfig,
+    FontFaceRequest,
+    FontProvider,
+    GoogleFontsProviderOptions,
+} from './types'
+import { assertSupportedFont } from './font-format'
+
+/** The public Google Fonts API. */
+const GOOGLE_FONTS_BASE_URL = 'https://fonts.googleapis.com'
+
+/**
+ * User-Agent for the Google Fonts CSS API, which picks the font format
+ * from it. Modern browsers are served WOFF2, which satori can't parse;
+ * this legacy Safari gets TrueType.
+ */
+const GOOGLE_FONTS_USER_AGENT =
+    'Mozilla/5.0 (Macintosh; U; Intel Mac OS X 10_6_8; de-at) AppleWebKit/533.21.1 (KHTML, like Gecko) Version/5.0.5 Safari/533.21.1'
+
+/**
+ * A {@link FontProvider} for the Google Fonts CSS2 API, or a mirror of
+ * it at `baseUrl`. Font file URLs are taken from the returned CSS, so a
+ * mirror should rewrite them to point at itself.
+ *
+ * @example
+ * ```ts
+ * const fontProvider = createGoogleFontsProvider({ baseUrl: 'https://fonts.internal.example.com' })
+ * await loadGoogleFont('Inter', { weight: 700, fontProvider })
+ * ```
+ */
+export function createGoogleFontsProvider(
+    options: GoogleFontsProviderOptions = {}
+): FontProvider {
+    const baseUrl = (options.baseUrl ?? GOOGLE_FONTS_BASE_URL).replace(/\/+$/, '')
+
+    return {
+        name: baseUrl === GOOGLE_FONTS_BASE_URL ? 'google' : `google:${baseUrl}`,
+        async load(family, faces, { text, signal, fetch }) {
+            // Build Google Fonts CSS URL
+            const params = new URLSearchParams({
+                family: googleFontsFamily(family, faces),
+                display: 'swap',
+            })
+            if (text) {
+                params.set('text', text)
+            }
+
+            const cssUrl = `${baseUrl}/css2?${params.toString()}`
+
+            // Fetch CSS with a user-agent that gets TrueType rather than WOFF2
+            const cssResponse = await fetch(cssUrl, {
+                headers: { 'User-Agent': GOOGLE_FONTS_USER_AGENT },
+                signal,
+            })
+
+            if (!cssResponse.ok) {
+                throw new Error(
+                    `Failed to fetch Google Font CSS for "${family}": ${cssResponse.status} ${cssResponse.statusText}`
+                )
+            }
+
+            const available = parseFontFaces(await cssResponse.text())
+
+            return Promise.all(
+                faces.map(async ({ weight, style }) => {
+                    // A stylesheet for a single face only describes that face
+                    const face =
+                        available.find((f) => f.weight === weight && f.style === style) ??
+                        (faces.length === 1 ? available[0] : undefined)
+                    if (!face) {
+                        throw new Error(
+                            `Could not find font URL in Google Fonts CSS for "${family}" (weight: ${weight}, style: ${style})`
+                        )
+                    }
+
+                    // Fetch the actual font binary
+                    const fontResponse = await fetch(face.url, { signal })
+                    if (!fontResponse.ok) {
+                        throw new Error(
+                            `Failed to fetch font file for "${family}": ${fontResponse.status} ${fontResponse.statusText}`
+                        )
+                    }
+
+                    const data = await fontResponse.arrayBuffer()
+                    assertSupportedFont(data, `Google Font "${family}"`)
+
+                    return { name: family, data, weight, style }
+                })
+            )
+        },
+    }
+}
+
+/**
+ * The default font provider: the public Google Fonts API.
+ */
+export const googleFontsProvider = createGoogleFontsProvider()
+
+type FontWeight = NonNullable<FontConfig['weight']>
+
+/**
+ * Build the `family` parameter of a Google Fonts CSS2 request. The `ital`
+ * axis is only included when an italic face is wanted, since families
+ * without italics reject it.
+ */
+function googleFontsFamily(family: string, faces: FontFaceRequest[]): string {
+    const unique = (values: string[]) => [...new Set(values)]
+
+    if (!faces.some((face) => face.style === 'italic')) {
+        const weights = unique(
+            [...faces].sort((a, b) => a.weight - b.weight).map((f) => `${f.weight}`)
+        )
+        return `${family}:wght@${weights.join(';')}`
+    }
+
+    // Tuples must be sorted: upright before italic, then by weight
+    const tuples = unique(
+        faces
+            .map((face) => [face.style === 'italic' ? 1 : 0, face.weight] as const)
+            .sort((a, b) => a[0] - b[0] || a[1] - b[1])
+            .map(([ital, weight]) => `${ital},${weight}`)
+    )
+    return `${family}:ital,wght@${tuples.join(';')}`
+}
+
+/**
+ * Split a Google Fonts stylesheet into its `@font-face` rules, taking
+ * the first non-WOFF2 source of each. Rules with only WOFF2 sources are
+ * kept, last, so the format check can report what was served.
+ */
+function parseFontFaces(css: string): (FontFaceRequest & { url: string })[] {
+    const faces: (FontFaceRequest & { url: string; woff2: boolean })[] = []
+    for (const [, block = ''] of css.matchAll(/@font-face\s*\{([^}]*)\}/g)) {
+        const sources = [
+            ...block.matchAll(/url\(([^)]+)\)(?:\s*format\(['"]?([\w-]+)['"]?\))?/g),
+        ]
+        const source = sources.find(([, , format]) => format !== 'woff2') ?? sources[0]
+        if (!source?.[1]) continue
+
+        const weight = Number(block.match(/font-weight:\s*(\d+)/)?.[1] ?? 400)
+        const style = block.match(/font-style:\s*(\w+)/)?.[1] === 'italic'
+            ? 'italic'
+            : 'normal'
+        faces.push({
+            weight: weight as FontWeight,
+            style,
+            url: source[1],
+            woff2: source[2] === 'woff2',
+        })
+    }
+    return faces.sort((a, b) => Number(a.woff2) - Number(b.woff2))
+}
@@ -0,0 +1,193 @@
+import type { FontConfig, FontFileSource, FontSource, RenderOptions } from './types'
+import { assertSupportedFont, readFontMetadata } from './font-format'
+import { toArrayBuffer } from './bytes'
+import { readDirectory, readFile, toPath } from './runtime'
+
+/** File extensions picked up when registering a directory. */
+const FONT_EXTENSIONS = ['.ttf', '.otf']
+
+/**
+ * Local fonts, indexed by family, weight and style.
+ *
+ * Renders and `resolveFont` look fonts up here before fetching them, so
+ * registered fonts work offline and in air-gapped builds. Family, weight
+ * and style are read from each font's own tables unless overridden.
+ *
+ * All renders share {@link fontRegistry} unless `fontRegistry` is passed
+ * in the render options.
+ *
+ * @example
+ * ```ts
+ * import { registerFonts } from '@vahlcode/og'
+ *
+ * await registerFonts('./assets/fonts', {
+ *   data: interBoldBytes,
+ *   name: 'Inter',
+ * })
+ * ```
+ */
+export class FontRegistry {
+    private readonly fonts = new Map<string, FontConfig>()
+
+    /**
+     * Add fonts to the registry. A font with the same family, weight and
+     * style as an existing one replaces it.
+     *
+     * @returns The registered fonts
+     */
+    async register(...sources: FontSource[]): Promise<FontConfig[]> {
+        const registered: FontConfig[] = []
+        for (const source of sources) {
+            for (const font of await loadFontSource(source)) {
+                this.fonts.set(registryKey(font), font)
+                registered.push(font)
+            }
+        }
+        return registered
+    }
+
+    /**
+     * Find the registered font with the same family (case-insensitive),
+     * weight and style as `font`.
+     */
+    find(font: Pick<FontConfig, 'name' | 'weight' | 'style'>): FontConfig | undefined {
+        return this.fonts.get(registryKey(font))
+    }
+
+    /** Every registered font. */
+    list(): FontConfig[] {
+        return [...this.fonts.values()]
+    }
+
+    /** The number of registered fonts. */
+    get size(): number {
+        return this.fonts.size
+    }
+
+    /** Remove every registered font. */
+    clear(): void {
+        this.fonts.clear()
+    }
+}
+
+/**
+ * The font registry shared by every render that doesn't pass its own
+ * `fontRegistry`.
+ */
+export const fontRegistry = new FontRegistry()
+
+/**
+ * Add fonts to the shared {@link fontRegistry}.
+ *
+ * @param sources - File or directory paths, `file:` URLs, font bytes, or
+ *   {@link FontFileSource} objects
+ * @returns The registered fonts
+ *
+ * @example
+ * ```ts
+ * import { registerFonts, renderToPng } from '@vahlcode/og'
+ *
+ * await registerFonts('./fonts')
+ * const png = await renderToPng(element, {
+ *   fonts: [{ name: 'Inter', weight: 700 }],
+ *   offline: true,
+ * })
+ * ```
+ */
+export function registerFonts(...sources: FontSource[]): Promise<FontConfig[]> {
+    return fontRegistry.register(...sources)
+}
+
+/**
+ * Look `font` up in the registry. Returns `undefined` if it isn't there
+ * and fetching is allowed, and throws in `offline` mode.
+ *
+ * @internal
+ */
+export function resolveLocalFont(
+    font: FontConfig,
+    options: Pick<RenderOptions, 'offline' | 'fontRegistry'> = {}
+): FontConfig | undefined {
+    const registry = options.fontRegistry ?? fontRegistry
+    const registered = registry.find(font)
+    if (registered || !options.offline) return registered
+
+    throw new Error(
+        `Font "${font.name}" (weight: ${font.weight ?? 400}, style: ${font.style ?? 'normal'}) is not registered, and offline mode forbids fetching it. Add it with registerFonts().`
+    )
+}
+
+function registryKey(font: Pick<FontConfig, 'name' | 'weight' | 'style'>): string {
+    return `${font.name.toLowerCase()}:${font.weight ?? 400}:${font.style ?? 'normal'}`
+}
+
+/**
+ * Read a font source into one `FontConfig` per font file.
+ */
+async function loadFontSource(source: FontSource): Promise<FontConfig[]> {
+    if (typeof source === 'string' || source instanceof URL) {
+        return loadFontSource({ path: source })
+    }
+    if (source instanceof ArrayBuffer || ArrayBuffer.isView(source)) {
+        return [toFontConfig({}, toArrayBuffer(source), 'Font data')]
+    }
+
+    const overrides: FontFileSource = source
+    if (overrides.data) {
+        return [toFontConfig(overrides, toArrayBuffer(overrides.data), 'Font data')]
+    }
+    if (!overrides.path) {
+        throw new Error('A font source needs a `path` or `data`.')
+    }
+
+    const files = await readFontFiles(overrides.path)
+    return files.map(({ path, data }) => toFontConfig(overrides, data, `Font file "${path}"`))
+}
+
+/**
+ * Build a `FontConfig` from font bytes, taking family, weight and style
+ * from `overrides` first and the font's own tables second.
+ */
+function toFontConfig(
+    overrides: FontFileSource,
+    data: ArrayBuffer,
+    label: string
+): FontConfig {
+    assertSupportedFont(data, label)
+    const metadata = readFontMetadata(data)
+    const name = overrides.name ?? metadata.family
+    if (!name) {
+        throw new Error(`Could not read the family name of ${label}; pass \`name\`.`)
+    }
+    return {
+        name,
+        data,
+        weight: overrides.weight ?? metadata.weight ?? 400,
+        style: overrides.style ?? metadata.style ?? 'normal',
+    }
+}
+
+/**
+ * Read a font file, or every `.ttf` and `.otf` file under a directory.
+ */
+async function readFontFiles(
+    path: string | URL
+): Promise<{ path: string; data: ArrayBuffer }[]> {
+    const files: { path: string; data: ArrayBuffer }[] = []
+
+    const visit = async (file: string, explicit: boolean): Promise<void> => {
+        const entries = await readDirectory(file)
+        if (entries) {
+            for (const entry of entries) await visit(entry, false)
+            return
+        }
+        // Files inside directories are filtered by extension; a file
+        // passed directly is always read
+        const extension = /\.[^./\\]*$/.exec(file)?.[0].toLowerCase() ?? ''
+        if (!explicit && !FONT_EXTENSIONS.includes(extension)) return
+        files.push({ path: file, data: toArrayBuffer(await readFile(file)) })
+    }
+    await visit(toPath(path), true)
+
+    return files
+}
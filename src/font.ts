@@ -1,5 +1,18 @@
 import { LRUCache } from './cache'
-import type { FontConfig, LoadGoogleFontOptions } from './types'
+import type {
+    FetchFunction,
+    FontConfig,
+    FontFaceRequest,
+    FontProvider,
+    FontProviderOptions,
+    LoadGoogleFontFamilyOptions,
+    LoadGoogleFontOptions,
+    RenderOptions,
+} from './types'
+import { withRenderScope, type RenderScope } from './scope'
+import { assertSupportedFont } from './font-format'
+import { resolveLocalFont } from './font-registry'
+import { googleFontsProvider } from './font-provider'
 
 /** Internal cache for fetched font data — shared across calls. */
 const fontCache = new LRUCache<string, FontConfig>({
@@ -8,14 +21,40 @@ const fontCache = new LRUCache<string, FontConfig>({
 })
 
 /**
- * Build a cache key from font parameters.
+ * Reduce subset text to its unique characters, sorted, so any text with
+ * the same character set shares a cache key.
+ */
+function toCharset(text: string | undefined): string | undefined {
+    if (!text) return undefined
+    return [...new Set(text)].sort().join('')
+}
+
+/**
+ * FNV-1a hash of a string, as 8 hex digits.
+ */
+function hashString(value: string): string {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Build a cache key from font parameters. Subsets are keyed by a hash
+ * of their character set.
  */
 function fontCacheKey(
+    provider: FontProvider,
     family: string,
     weight: number,
-    style: string
+    style: string,
+    text?: string
 ): string {
-    return `${family}:${weight}:${style}`
+    const key = `${provider.name}:${family}:${weight}:${style}`
+    const charset = toCharset(text)
+    return charset ? `${key}:${hashString(charset)}` : key
 }
 
 /**
@@ -23,10 +62,14 @@ function fontCacheKey(
  * to pass into `ImageResponseOptions.fonts`.
  *
  * Results are cached in memory — subsequent calls with the same
- * parameters return instantly.
+ * parameters return instantly. Pass `signal` or `timeoutMs` to bound
+ * the CSS and font fetches. Google is asked for TrueType, since satori
+ * can't parse WOFF2; a {@link FontFormatError} is thrown if it isn't.
+ * Pass `fontProvider` to load from somewhere else, or `fetch` to
+ * control how requests are made.
  *
  * @param family - Google Font family name (e.g. `"Inter"`, `"Roboto Mono"`)
- * @param options - Weight, style, and optional text subset
+ * @param options - Weight, style, optional text subset, and cancellation
  * @returns A fully-resolved `FontConfig` with the raw `data` populated
  *
  * @example
@@ -41,110 +84,316 @@ export async function loadGoogleFont(
     family: string,
     options: LoadGoogleFontOptions = {}
 ): Promise<FontConfig> {
-    const weight = options.weight ?? 400
-    const style = options.style ?? 'normal'
-    const key = fontCacheKey(family, weight, style)
-
-    // Return from cache if available
-    const cached = fontCache.get(key)
-    if (cached) return cached
-
-    // Build Google Fonts CSS URL
-    const params = new URLSearchParams({
-        family: `${family}:wght@${weight}`,
-        display: 'swap',
+    const [font] = await loadGoogleFontFamily(family, {
+        ...options,
+        weights: [options.weight ?? 400],
+        styles: [options.style ?? 'normal'],
     })
-    if (options.text) {
-        params.set('text', options.text)
-    }
+    return font!
+}
 
-    const cssUrl = `https://fonts.googleapis.com/css2?${params.toString()}`
+/**
+ * Load several weights and styles of a Google Font with a single CSS
+ * request, returning one {@link FontConfig} per combination.
+ *
+ * Faces already in the font cache are not requested again, and faces
+ * already being fetched by another call share that fetch.
+ *
+ * @param family - Google Font family name (e.g. `"Inter"`, `"Roboto Mono"`)
+ * @param options - Weights, styles, optional text subset, and cancellation
+ * @returns A `FontConfig` for every style × weight, in that order
+ *
+ * @example
+ * ```ts
+ * import { loadGoogleFontFamily } from '@vahlcode/og'
+ *
+ * const fonts = await loadGoogleFontFamily('Inter', {
+ *   weights: [400, 700],
+ *   styles: ['normal', 'italic'],
+ * })
+ * new ImageResponse(element, { fonts })
+ * ```
+ */
+export async function loadGoogleFontFamily(
+    family: string,
+    options: LoadGoogleFontFamilyOptions = {}
+): Promise<FontConfig[]> {
+    const weights = options.weights ?? [400]
+    const styles = options.styles ?? ['normal']
+    const provider = options.fontProvider ?? googleFontsProvider
+    const faces = styles.flatMap((style) =>
+        weights.map((weight) => ({ weight, style }))
+    )
+    const keys = faces.map(({ weight, style }) =>
+        fontCacheKey(provider, family, weight, style, options.text)
+    )
 
-    // Fetch CSS with a user-agent that triggers woff2 format
-    const cssResponse = await fetch(cssUrl, {
-        headers: {
-            'User-Agent':
-                'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        },
-    })
+    // Serve what we can from the cache
+    const fonts = keys.map((key) => fontCache.get(key))
+    if (fonts.every(Boolean)) return fonts as FontConfig[]
 
-    if (!cssResponse.ok) {
-        throw new Error(
-            `Failed to fetch Google Font CSS for "${family}": ${cssResponse.status} ${cssResponse.statusText}`
-        )
-    }
+    return withRenderScope(options, 'fonts', (scope) =>
+        scope.run('fonts', async () => {
+            // Join loads already in flight for these faces; fetch the rest
+            // with one request
+            const shared = keys.map((key, i) =>
+                fonts[i] ? undefined : inflightLoads.get(key)
+            )
+            const toFetch = faces.filter((_, i) => !fonts[i] && !shared[i])
+            const fresh =
+                toFetch.length > 0
+                    ? startLoad(provider, family, toFetch, options.text, options.fetch ?? fetch)
+                    : undefined
 
-    const css = await cssResponse.text()
+            const loads = new Set([...shared.map((entry) => entry?.load), fresh])
+            loads.delete(undefined)
+            const results = new Map(
+                await Promise.all(
+                    [...loads].map(async (load) => [load, await joinLoad(load!, scope)] as const)
+                )
+            )
 
-    // Extract the font file URL from the CSS
-    const urlMatch = css.match(/src:\s*url\(([^)]+)\)/)
-    if (!urlMatch?.[1]) {
-        throw new Error(
-            `Could not find font URL in Google Fonts CSS for "${family}" (weight: ${weight}, style: ${style})`
+            return faces.map((face, i) => {
+                if (fonts[i]) return fonts[i]!
+                const { load, index } = shared[i] ?? {
+                    load: fresh!,
+                    index: toFetch.indexOf(face),
+                }
+                return results.get(load)![index]!
+            })
+        })
+    )
+}
+
+/**
+ * Warm the font cache, e.g. at server startup, so the first renders
+ * don't wait on Google Fonts.
+ *
+ * Fonts are resolved like render `fonts`: those with `data` or in the
+ * font registry need no fetch. Fonts with a `url` are fetched and
+ * checked but not cached. Pass the same `fontProvider` your renders use,
+ * since the cache is per provider.
+ *
+ * @param fonts - Fonts to load
+ * @param options - Font provider, `fetch` and cancellation
+ * @returns The loaded fonts, in order
+ *
+ * @example
+ * ```ts
+ * import { preloadFonts } from '@vahlcode/og'
+ *
+ * await preloadFonts([
+ *   { name: 'Inter', weight: 400 },
+ *   { name: 'Inter', weight: 700 },
+ * ])
+ * ```
+ */
+export function preloadFonts(
+    fonts: FontConfig[],
+    options: FontProviderOptions = {}
+): Promise<FontConfig[]> {
+    const { fontProvider, fetch } = options
+    return withRenderScope(options, 'fonts', (scope) =>
+        Promise.all(
+            fonts.map((font) =>
+                resolveFont(font, { fontProvider, fetch, signal: scope.signal })
+            )
         )
-    }
+    )
+}
+
+/**
+ * A font provider load shared by every caller that wants the same faces.
+ */
+interface InflightLoad {
+    fonts: Promise<FontConfig[]>
+    /** Cancels the fetch; aborted once every waiting caller has given up. */
+    controller: AbortController
+    waiters: number
+    /** Cache keys of the faces being fetched. */
+    keys: string[]
+}
 
-    const fontUrl = urlMatch[1]
+/**
+ * Loads in flight, by the cache key of each face they fetch.
+ */
+const inflightLoads = new Map<string, { load: InflightLoad; index: number }>()
 
-    // Fetch the actual font binary
-    const fontResponse = await fetch(fontUrl)
-    if (!fontResponse.ok) {
-        throw new Error(
-            `Failed to fetch font file for "${family}": ${fontResponse.status} ${fontResponse.statusText}`
-        )
+/**
+ * Start fetching `faces` and register the load so concurrent callers
+ * can join it. The load is forgotten once it settles, so failures
+ * aren't cached.
+ */
+function startLoad(
+    provider: FontProvider,
+    family: string,
+    faces: FontFaceRequest[],
+    text: string | undefined,
+    fetch: FetchFunction
+): InflightLoad {
+    const controller = new AbortController()
+    const keys = faces.map(({ weight, style }) =>
+        fontCacheKey(provider, family, weight, style, text)
+    )
+    const load: InflightLoad = {
+        fonts: loadFromProvider(provider, family, faces, keys, {
+            text,
+            fetch,
+            signal: controller.signal,
+        }),
+        controller,
+        waiters: 0,
+        keys,
     }
 
-    const data = await fontResponse.arrayBuffer()
+    load.keys.forEach((key, index) => inflightLoads.set(key, { load, index }))
+    load.fonts
+        .finally(() => forgetLoad(load))
+        .catch(() => {
+            // Reported to the callers that joined the load
+        })
 
-    const config: FontConfig = {
-        name: family,
-        data,
-        weight,
-        style,
-    }
+    return load
+}
+
+/**
+ * Load `faces` from `provider`, check that satori can parse them, and
+ * store them in the font cache under `keys`.
+ */
+async function loadFromProvider(
+    provider: FontProvider,
+    family: string,
+    faces: FontFaceRequest[],
+    keys: string[],
+    options: Parameters<FontProvider['load']>[2]
+): Promise<FontConfig[]> {
+    const fonts = await provider.load(family, faces, options)
 
-    // Cache for future calls
-    fontCache.set(key, config)
+    return faces.map(({ weight, style }, i) => {
+        const font = fonts[i]
+        if (!font?.data) {
+            throw new Error(
+                `Font provider "${provider.name}" returned no data for "${family}" (weight: ${weight}, style: ${style})`
+            )
+        }
+        assertSupportedFont(font.data, `Font "${family}" from provider "${provider.name}"`)
 
-    return config
+        const config: FontConfig = { name: family, data: font.data, weight, style }
+
+        // Cache for future calls
+        fontCache.set(keys[i]!, config)
+
+        return config
+    })
+}
+
+/**
+ * Stop offering `load` to new callers.
+ */
+function forgetLoad(load: InflightLoad): void {
+    for (const key of load.keys) {
+        if (inflightLoads.get(key)?.load === load) inflightLoads.delete(key)
+    }
+}
+
+/**
+ * Wait for a shared load. A caller that is cancelled stops waiting at
+ * once; the fetch itself is only cancelled when no one is left waiting.
+ */
+async function joinLoad(load: InflightLoad, scope: RenderScope): Promise<FontConfig[]> {
+    load.waiters++
+    try {
+        return await scope.race(() => load.fonts)
+    } finally {
+        load.waiters--
+        if (load.waiters === 0 && scope.signal?.aborted) {
+            forgetLoad(load)
+            load.controller.abort(scope.signal.reason)
+        }
+    }
 }
 
 /**
  * Resolve a {@link FontConfig} to ensure it has raw `data` populated.
  *
  * - If `data` is already present, returns as-is.
+ * - If the font is in the font registry, returns the registered font.
+ * - In `offline` mode, throws.
  * - If `url` is provided, fetches the font from that URL.
- * - Otherwise, fetches from Google Fonts using {@link loadGoogleFont}.
+ * - Otherwise, loads it from the font provider (Google Fonts by
+ *   default) using {@link loadGoogleFont}, subset to `text` if given.
+ *
+ * Throws a {@link FontFormatError} if the data is WOFF2 or not a font.
  *
  * @internal
  */
-export async function resolveFont(font: FontConfig): Promise<FontConfig> {
-    if (font.data) return font
+export async function resolveFont(
+    font: FontConfig,
+    options: FontProviderOptions &
+        Pick<RenderOptions, 'offline' | 'fontRegistry'> & { text?: string } = {}
+): Promise<FontConfig> {
+    if (font.data) {
+        assertSupportedFont(font.data, `Font "${font.name}"`)
+        return font
+    }
+
+    const local = resolveLocalFont(font, options)
+    if (local) return local
 
     if (font.url) {
-        const response = await fetch(font.url)
+        const response = await (options.fetch ?? fetch)(font.url, {
+            signal: options.signal,
+        })
         if (!response.ok) {
             throw new Error(
                 `Failed to fetch font from URL "${font.url}": ${response.status} ${response.statusText}`
             )
         }
-        return {
-            ...font,
-            data: await response.arrayBuffer(),
-        }
+        const data = await response.arrayBuffer()
+        assertSupportedFont(data, `Font "${font.name}" from "${font.url}"`)
+        return { ...font, data }
     }
 
-    // Fallback: load from Google Fonts
+    // Fallback: load from the font provider
     return loadGoogleFont(font.name, {
         weight: font.weight,
         style: font.style,
+        text: options.text,
+        fontProvider: options.fontProvider,
+        fetch: options.fetch,
+        signal: options.signal,
     })
 }
 
+/**
+ * Whether {@link resolveFont} would serve `font`, subset to `text`, from
+ * the font cache of `fontProvider`. Fonts with inline `data` or a `url`
+ * never go through the cache.
+ *
+ * @internal
+ */
+export function isFontCached(
+    font: FontConfig,
+    options: { text?: string; fontProvider?: FontProvider } = {}
+): boolean {
+    if (font.data || font.url) return false
+    return fontCache.has(
+        fontCacheKey(
+            options.fontProvider ?? googleFontsProvider,
+            font.name,
+            font.weight ?? 400,
+            font.style ?? 'normal',
+            options.text
+        )
+    )
+}
+
 /**
  * Clear the internal font cache.
  * Useful for testing or freeing memory in long-running processes.
+ * Loads already in flight still finish, but later calls fetch afresh.
  */
 export function clearFontCache(): void {
     fontCache.clear()
+    inflightLoads.clear()
 }
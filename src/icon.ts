@@ -0,0 +1,124 @@
+import { LRUCache } from './cache'
+import { svgToDataUri } from './bytes'
+import { withRenderScope } from './scope'
+import { readTextFile, toPath } from './runtime'
+import type { BuiltinIconSet, IconSet, LoadIconOptions } from './types'
+
+/**
+ * URL templates of the built-in icon sets.
+ */
+const ICON_SETS: Record<BuiltinIconSet, string> = {
+    lucide: 'https://cdn.jsdelivr.net/npm/lucide-static@latest/icons/{name}.svg',
+    tabler: 'https://cdn.jsdelivr.net/npm/@tabler/icons@latest/icons/outline/{name}.svg',
+    'simple-icons': 'https://cdn.jsdelivr.net/npm/simple-icons@latest/icons/{name}.svg',
+}
+
+/** Loaded icons, as data-URIs, by source and color. */
+const iconCache = new LRUCache<string, string>({
+    maxSize: 200,
+    ttl: 24 * 60 * 60 * 1000, // 1 day
+})
+
+/**
+ * Load an icon as an SVG data-URI, ready for `<img src>`.
+ *
+ * `set` is a built-in set (`"lucide"`, `"tabler"`, `"simple-icons"`),
+ * a URL or file path template containing `{name}`, or a map from icon
+ * name to SVG markup. Fetched and read icons are cached in memory.
+ *
+ * @param set - Where to find the icon
+ * @param name - Icon name, e.g. `"arrow-right"`
+ * @param options - `color` for `currentColor`, `fetch` and cancellation
+ * @returns A data-URI (e.g. `"data:image/svg+xml;base64,PHN2Zy..."`)
+ *
+ * @example
+ * ```ts
+ * import { loadIcon } from '@vahlcode/og'
+ *
+ * const arrow = await loadIcon('lucide', 'arrow-right', { color: '#fff' })
+ * const logo = await loadIcon('./assets/icons/{name}.svg', 'logo')
+ * // Use in JSX: <img src={arrow} width={48} height={48} />
+ * ```
+ */
+export async function loadIcon(
+    set: IconSet,
+    name: string,
+    options: LoadIconOptions = {}
+): Promise<string> {
+    if (!/^[\w-]+$/.test(name)) {
+        throw new Error(`Invalid icon name "${name}". Use letters, digits, "_" and "-".`)
+    }
+
+    if (typeof set === 'object') {
+        const svg = set[name]
+        if (svg === undefined) throw new Error(`Icon "${name}" is not in the icon set.`)
+        return svgToDataUri(applyColor(svg, options.color))
+    }
+
+    const template = ICON_SETS[set as BuiltinIconSet] ?? set
+    if (!template.includes('{name}')) {
+        throw new Error(
+            `Unknown icon set "${set}". Use ${Object.keys(ICON_SETS).join(', ')}, or a URL or path containing "{name}".`
+        )
+    }
+
+    const source = template.replaceAll('{name}', name)
+    const key = `${source}#${options.color ?? ''}`
+    const cached = iconCache.get(key)
+    if (cached) return cached
+
+    const svg = await withRenderScope(options, 'assets', (scope) =>
+        scope.run('assets', () => readIcon(source, name, options, scope.signal))
+    )
+    const dataUri = svgToDataUri(applyColor(svg, options.color))
+    iconCache.set(key, dataUri)
+    return dataUri
+}
+
+/**
+ * Fetch an icon from an `http(s)` URL, or read it from a file path or
+ * `file:` URL.
+ */
+async function readIcon(
+    source: string,
+    name: string,
+    options: LoadIconOptions,
+    signal: AbortSignal | undefined
+): Promise<string> {
+    if (/^https?:/i.test(source)) {
+        const fetch = options.fetch ?? globalThis.fetch
+        const response = await fetch(source, { signal })
+        if (!response.ok) {
+            throw new Error(
+                `Failed to load icon "${name}" from "${source}": ${response.status} ${response.statusText}`
+            )
+        }
+        return response.text()
+    }
+
+    const path = toPath(source)
+    try {
+        return await readTextFile(path)
+    } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') {
+            throw new Error(`Icon "${name}" not found at "${path}".`)
+        }
+        throw error
+    }
+}
+
+/**
+ * Replace `currentColor`, which icon sets use for strokes and fills and
+ * which an `<img>` can't inherit, with `color`.
+ */
+function applyColor(svg: string, color: string | undefined): string {
+    return color ? svg.replaceAll('currentColor', color) : svg
+}
+
+/**
+ * Clear the icon cache.
+ * Useful for testing or freeing memory in long-running processes.
+ */
+export function clearIconCache(): void {
+    iconCache.clear()
+}
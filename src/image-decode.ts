@@ -0,0 +1,413 @@
+/**
+ * Portable decoding and PNG encoding for images the renderer can't
+ * decode: WebP and AVIF through the optional `@jsquash` wasm codecs, and
+ * animated GIF built in. Built on `CompressionStream`, so it works on
+ * edge runtimes without `sharp`.
+ *
+ * @internal
+ */
+
+import type { DecodedImage } from './types'
+import { toArrayBuffer } from './bytes'
+import { readPackageFile } from './runtime'
+
+/** A `@jsquash` decode module. */
+interface WasmCodec {
+    init(options?: { wasmBinary?: Uint8Array }): Promise<void>
+    default(buffer: ArrayBuffer): Promise<ImageData | null>
+}
+
+/** The optional wasm codecs, and where each keeps its binary. */
+const WASM_CODECS: Record<string, { load: () => Promise<unknown>; wasm: string }> = {
+    'image/webp': {
+        load: () => import('@jsquash/webp/decode.js'),
+        wasm: '@jsquash/webp/codec/dec/webp_dec.wasm',
+    },
+    'image/avif': {
+        load: () => import('@jsquash/avif/decode.js'),
+        wasm: '@jsquash/avif/codec/dec/avif_dec.wasm',
+    },
+}
+
+/** Codecs being loaded or loaded, by MIME type. `undefined` if not installed. */
+const wasmCodecs = new Map<string, Promise<WasmCodec | undefined>>()
+
+/**
+ * Import and initialize the wasm codec for `mimeType`. On Node the codec
+ * can't fetch its own binary, so it's read from the installed package.
+ */
+async function loadWasmCodec(mimeType: string): Promise<WasmCodec | undefined> {
+    const entry = WASM_CODECS[mimeType]
+    if (!entry) return undefined
+
+    let codec: WasmCodec
+    try {
+        codec = (await entry.load()) as WasmCodec
+    } catch {
+        return undefined
+    }
+    const wasmBinary = await readPackageFile(entry.wasm)
+    await codec.init(wasmBinary ? { wasmBinary } : undefined)
+    return codec
+}
+
+/**
+ * Decode a WebP or AVIF image with the optional `@jsquash/webp` or
+ * `@jsquash/avif` codec. Returns `undefined` when the codec for
+ * `mimeType` isn't installed; a failed load is retried on the next call.
+ */
+export async function decodeWithWasmCodec(
+    bytes: Uint8Array,
+    mimeType: string
+): Promise<DecodedImage | undefined> {
+    let loading = wasmCodecs.get(mimeType)
+    if (!loading) {
+        loading = loadWasmCodec(mimeType).catch((error: unknown) => {
+            wasmCodecs.delete(mimeType)
+            throw error
+        })
+        wasmCodecs.set(mimeType, loading)
+    }
+
+    const codec = await loading
+    if (!codec) return undefined
+    const image = await codec.default(toArrayBuffer(bytes))
+    if (!image) throw new Error(`Could not decode ${mimeType} image`)
+    return { width: image.width, height: image.height, data: image.data }
+}
+
+/**
+ * Whether satori and resvg can't draw an image of type `mimeType`. They
+ * read PNG, JPEG, static GIF and SVG.
+ */
+export function needsTranscode(bytes: Uint8Array, mimeType: string): boolean {
+    if (mimeType === 'image/webp' || mimeType === 'image/avif') return true
+    return mimeType === 'image/gif' && isAnimatedGif(bytes)
+}
+
+/**
+ * Whether a GIF has more than one frame. Malformed GIFs are treated as
+ * static and left to the renderer.
+ */
+export function isAnimatedGif(bytes: Uint8Array): boolean {
+    try {
+        let frames = 0
+        for (const block of gifBlocks(bytes)) {
+            if (block.type === 'image' && ++frames > 1) return true
+        }
+        return false
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Decode the first frame of a GIF to RGBA pixels the size of the GIF's
+ * logical screen, transparent where the frame doesn't cover it.
+ */
+export function decodeGif(bytes: Uint8Array): DecodedImage {
+    const width = readUint16(bytes, 6)
+    const height = readUint16(bytes, 8)
+    const data = new Uint8Array(width * height * 4)
+    const globalPalette = bytes[10]! & 0x80 ? readPalette(bytes, 13, bytes[10]!) : undefined
+
+    let transparentIndex: number | undefined
+    for (const block of gifBlocks(bytes)) {
+        if (block.type === 'control') {
+            transparentIndex = block.transparentIndex
+            continue
+        }
+
+        const palette = block.palette ?? globalPalette
+        if (!palette) throw new Error('GIF frame has no color table')
+        // The screen size is checked before decoding; a frame can't be bigger
+        if (block.width * block.height > width * height) {
+            throw new Error('GIF frame is larger than its logical screen')
+        }
+        const indices = lzwDecode(block.data, block.minCodeSize, block.width * block.height)
+        const rows = block.interlaced ? interlacedRows(block.height) : undefined
+
+        for (let y = 0; y < block.height; y++) {
+            const row = rows ? rows[y]! : y
+            const canvasY = block.top + row
+            if (canvasY >= height) continue
+            for (let x = 0; x < block.width; x++) {
+                const canvasX = block.left + x
+                const index = indices[y * block.width + x]!
+                if (canvasX >= width || index === transparentIndex) continue
+                const pixel = (canvasY * width + canvasX) * 4
+                data.set(palette.subarray(index * 3, index * 3 + 3), pixel)
+                data[pixel + 3] = 255
+            }
+        }
+        break
+    }
+    return { width, height, data }
+}
+
+/** A graphic control extension or an image, as read from a GIF. */
+type GifBlock =
+    | { type: 'control'; transparentIndex: number | undefined }
+    | {
+          type: 'image'
+          left: number
+          top: number
+          width: number
+          height: number
+          interlaced: boolean
+          palette: Uint8Array | undefined
+          minCodeSize: number
+          data: Uint8Array
+      }
+
+/**
+ * Walk the blocks of a GIF after its header and global color table.
+ * Reads past the end of the data throw a `RangeError`.
+ */
+function* gifBlocks(bytes: Uint8Array): Generator<GifBlock> {
+    const ascii = String.fromCharCode(...bytes.subarray(0, 6))
+    if (ascii !== 'GIF87a' && ascii !== 'GIF89a') throw new Error('Not a GIF image')
+
+    const screenFlags = byteAt(bytes, 10)
+    let offset = 13 + (screenFlags & 0x80 ? 3 * 2 ** ((screenFlags & 7) + 1) : 0)
+
+    for (;;) {
+        const introducer = byteAt(bytes, offset)
+        if (introducer === 0x3b) return // Trailer
+
+        if (introducer === 0x21) {
+            const label = byteAt(bytes, offset + 1)
+            if (label === 0xf9) {
+                const flags = byteAt(bytes, offset + 3)
+                yield {
+                    type: 'control',
+                    transparentIndex: flags & 1 ? byteAt(bytes, offset + 6) : undefined,
+                }
+            }
+            offset = readSubBlocks(bytes, offset + 2).end
+            continue
+        }
+
+        if (introducer !== 0x2c) throw new Error('Malformed GIF block')
+        const flags = byteAt(bytes, offset + 9)
+        const palette = flags & 0x80 ? readPalette(bytes, offset + 10, flags) : undefined
+        const dataStart = offset + 10 + (palette?.length ?? 0)
+        const { data, end } = readSubBlocks(bytes, dataStart + 1)
+        yield {
+            type: 'image',
+            left: readUint16(bytes, offset + 1),
+            top: readUint16(bytes, offset + 3),
+            width: readUint16(bytes, offset + 5),
+            height: readUint16(bytes, offset + 7),
+            interlaced: (flags & 0x40) !== 0,
+            palette,
+            minCodeSize: byteAt(bytes, dataStart),
+            data,
+        }
+        offset = end
+    }
+}
+
+/** The byte at `offset`, throwing a `RangeError` past the end. */
+function byteAt(bytes: Uint8Array, offset: number): number {
+    const byte = bytes[offset]
+    if (byte === undefined) throw new RangeError('Unexpected end of GIF data')
+    return byte
+}
+
+/** A little-endian 16-bit value. */
+function readUint16(bytes: Uint8Array, offset: number): number {
+    return byteAt(bytes, offset) | (byteAt(bytes, offset + 1) << 8)
+}
+
+/** The RGB color table whose size is encoded in the low bits of `flags`. */
+function readPalette(bytes: Uint8Array, offset: number, flags: number): Uint8Array {
+    const end = offset + 3 * 2 ** ((flags & 7) + 1)
+    if (end > bytes.length) throw new RangeError('Unexpected end of GIF data')
+    return bytes.subarray(offset, end)
+}
+
+/**
+ * Join the length-prefixed sub-blocks starting at `offset`, returning
+ * their data and the offset after the terminating empty block.
+ */
+function readSubBlocks(bytes: Uint8Array, offset: number): { data: Uint8Array; end: number } {
+    const chunks: Uint8Array[] = []
+    let size = 0
+    for (let length = byteAt(bytes, offset); length > 0; length = byteAt(bytes, offset)) {
+        if (offset + 1 + length > bytes.length) throw new RangeError('Unexpected end of GIF data')
+        chunks.push(bytes.subarray(offset + 1, offset + 1 + length))
+        size += length
+        offset += 1 + length
+    }
+
+    const data = new Uint8Array(size)
+    let position = 0
+    for (const chunk of chunks) {
+        data.set(chunk, position)
+        position += chunk.length
+    }
+    return { data, end: offset + 1 }
+}
+
+/**
+ * Decompress GIF LZW data into `pixelCount` palette indices. Missing
+ * pixels are left as index 0.
+ */
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+    if (minCodeSize < 2 || minCodeSize > 11) throw new Error('Malformed GIF image data')
+    const output = new Uint8Array(pixelCount)
+    const clearCode = 1 << minCodeSize
+    const endCode = clearCode + 1
+
+    const prefix = new Uint16Array(4096)
+    const suffix = new Uint8Array(4096)
+    const stack = new Uint8Array(4097)
+    for (let code = 0; code < clearCode; code++) suffix[code] = code
+
+    let codeSize = minCodeSize + 1
+    let nextCode = endCode + 1
+    let previous = -1
+    let first = 0
+    let buffer = 0
+    let bits = 0
+    let written = 0
+
+    for (const byte of data) {
+        buffer |= byte << bits
+        bits += 8
+        while (bits >= codeSize) {
+            const code = buffer & ((1 << codeSize) - 1)
+            buffer >>>= codeSize
+            bits -= codeSize
+
+            if (code === clearCode) {
+                codeSize = minCodeSize + 1
+                nextCode = endCode + 1
+                previous = -1
+                continue
+            }
+            if (code === endCode) return output
+
+            if (previous === -1) {
+                if (written < pixelCount) output[written++] = suffix[code]!
+                previous = first = code
+                continue
+            }
+
+            // Unpack the code's string onto the stack, last pixel first
+            let top = 0
+            let current = code
+            if (code >= nextCode) {
+                // Not defined yet: the previous string plus its own first pixel
+                stack[top++] = first
+                current = previous
+            }
+            while (current >= clearCode) {
+                stack[top++] = suffix[current]!
+                current = prefix[current]!
+            }
+            first = suffix[current]!
+            stack[top++] = first
+            while (top > 0 && written < pixelCount) output[written++] = stack[--top]!
+
+            if (nextCode < 4096) {
+                prefix[nextCode] = previous
+                suffix[nextCode] = first
+                nextCode++
+                if (nextCode === 1 << codeSize && codeSize < 12) codeSize++
+            }
+            previous = code
+        }
+    }
+    return output
+}
+
+/**
+ * The image row each stored row belongs to in an interlaced GIF, which
+ * stores every 8th row from 0, every 8th from 4, every 4th from 2 and
+ * then every 2nd from 1.
+ */
+function interlacedRows(height: number): number[] {
+    const rows: number[] = []
+    for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]] as const) {
+        for (let row = start; row < height; row += step) rows.push(row)
+    }
+    return rows
+}
+
+/** CRC-32 lookup table for PNG chunks. */
+let crcTable: Uint32Array | undefined
+
+/** CRC-32 of `bytes`, as PNG chunks use. */
+function crc32(bytes: Uint8Array): number {
+    crcTable ??= Uint32Array.from({ length: 256 }, (_, n) => {
+        let c = n
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+        return c >>> 0
+    })
+    let crc = 0xffffffff
+    for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+    return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Encode RGBA pixels as an 8-bit PNG, compressed with the platform's
+ * `CompressionStream`.
+ */
+export async function encodePng(image: DecodedImage): Promise<Uint8Array> {
+    const { width, height, data } = image
+    if (data.length !== width * height * 4) {
+        throw new Error(`Decoded image data should be ${width}×${height} RGBA pixels`)
+    }
+
+    // Each scanline starts with filter type 0 (none)
+    const stride = width * 4
+    const raw = new Uint8Array((stride + 1) * height)
+    for (let y = 0; y < height; y++) {
+        raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+    }
+
+    const header = new Uint8Array(13)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, width)
+    view.setUint32(4, height)
+    header.set([8, 6, 0, 0, 0], 8) // 8-bit RGBA, no interlacing
+
+    return concat([
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', await deflate(raw)),
+        pngChunk('IEND', new Uint8Array(0)),
+    ])
+}
+
+/** A PNG chunk: length, type, data and CRC of the type and data. */
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length)
+    const view = new DataView(chunk.buffer)
+    view.setUint32(0, data.length)
+    chunk.set(new TextEncoder().encode(type), 4)
+    chunk.set(data, 8)
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+    return chunk
+}
+
+/** zlib-compress `data`, as PNG's `IDAT` expects. */
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([toArrayBuffer(data)])
+        .stream()
+        .pipeThrough(new CompressionStream('deflate'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/** Join byte arrays. */
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+        result.set(part, offset)
+        offset += part.length
+    }
+    return result
+}
@@ -1,21 +1,162 @@
 import type { ReactElement } from 'react'
-import type { ImageResponseOptions, FontConfig } from './types'
-import { loadGoogleFont, resolveFont } from './font'
+import type {
+    ImageResponseOptions,
+    RenderMetrics,
+    RenderResult,
+} from './types'
+import { CONTENT_TYPES, renderImage, renderFallbackCard } from './render'
+import { RenderQueueFullError } from './errors'
 
 /**
- * Default image dimensions matching the standard OG image spec.
+ * `Cache-Control` for successful renders.
  */
-const DEFAULT_WIDTH = 1200
-const DEFAULT_HEIGHT = 630
+const DEFAULT_CACHE_CONTROL = 'public, max-age=3600, immutable'
 
 /**
- * A Web-standard `Response` that renders a React element to a PNG image.
+ * `Cache-Control` for fallback renders, so crawlers don't keep a broken image.
+ */
+const FALLBACK_CACHE_CONTROL = 'no-store, max-age=0'
+
+/**
+ * Merge header sources left to right; later sources override earlier ones.
+ */
+function mergeHeaders(...sources: (HeadersInit | undefined)[]): Headers {
+    const merged = new Headers()
+    for (const source of sources) {
+        if (!source) continue
+        new Headers(source).forEach((value, key) => {
+            merged.set(key, value)
+        })
+    }
+    return merged
+}
+
+/**
+ * Format render metrics as a `Server-Timing` header value.
+ */
+function formatServerTiming(metrics: RenderMetrics): string {
+    const entries = Object.entries(metrics.durations).map(
+        ([phase, ms]) => `${phase};dur=${ms.toFixed(1)}`
+    )
+    entries.push(
+        `font-cache;desc="hit=${metrics.fontCacheHits} miss=${metrics.fontCacheMisses}"`,
+        `bytes;desc="${metrics.bytes}"`
+    )
+    return entries.join(', ')
+}
+
+/**
+ * A finished render together with the status and headers to serve it with.
+ */
+interface RenderedResponse {
+    result: RenderResult
+    status: number
+    headers: Headers
+}
+
+/**
+ * Run the render pipeline, falling back to `onError`'s element (or the
+ * plain fallback card) if it fails. Rethrows the original error when
+ * `fallback` is off, when even the fallback card cannot be rendered, or
+ * when the render queue is full — rendering a fallback then would defeat
+ * the limit.
+ */
+async function renderResponse(
+    element: ReactElement,
+    options: ImageResponseOptions,
+    fallback = true
+): Promise<RenderedResponse> {
+    const {
+        headers,
+        status = 200,
+        onError,
+        serverTiming = false,
+        ...renderOptions
+    } = options
+
+    let metrics: RenderMetrics | undefined
+    const onMetrics = (m: RenderMetrics) => {
+        metrics = m
+        renderOptions.onMetrics?.(m)
+    }
+
+    try {
+        const result = await renderImage(element, { ...renderOptions, onMetrics })
+        return {
+            result,
+            status,
+            headers: mergeHeaders(
+                {
+                    'Content-Type': result.contentType,
+                    'Cache-Control': DEFAULT_CACHE_CONTROL,
+                },
+                serverTiming && metrics
+                    ? { 'Server-Timing': formatServerTiming(metrics) }
+                    : undefined,
+                headers
+            ),
+        }
+    } catch (error) {
+        if (!fallback || error instanceof RenderQueueFullError) throw error
+
+        const replacement = (await onError?.(error)) ?? {}
+
+        // The original signal may be what failed the render; the fallback
+        // element gets a fresh timeout and the plain card needs no network
+        const { signal, timeoutMs, ...fallbackOptions } = renderOptions
+
+        let result: RenderResult | undefined
+        if (replacement.element) {
+            try {
+                result = await renderImage(replacement.element, {
+                    ...fallbackOptions,
+                    timeoutMs,
+                })
+            } catch {
+                // Fall through to the plain card
+            }
+        }
+        if (!result) {
+            try {
+                result = await renderFallbackCard(fallbackOptions)
+            } catch {
+                throw error
+            }
+        }
+
+        return {
+            result,
+            status: replacement.status ?? status,
+            headers: mergeHeaders(
+                { 'Content-Type': result.contentType },
+                headers,
+                { 'Cache-Control': FALLBACK_CACHE_CONTROL },
+                replacement.headers
+            ),
+        }
+    }
+}
+
+/**
+ * A Web-standard `Response` that renders a React element to an image.
  *
  * The pipeline is:
  * 1. Resolve fonts (auto-loads Inter 700 if none provided)
- * 2. `satori(element, options)` → SVG string
- * 3. `Resvg(svg).render().asPng()` → PNG buffer
- * 4. Return as `Response` with `Content-Type: image/png`
+ * 2. `satori(element, options)` → SVG string (returned directly for `format: "svg"`)
+ * 3. Rasterize the SVG with `renderer` (resvg-wasm by default) → PNG buffer
+ * 4. Optionally transcode to JPEG/WebP/AVIF via `sharp`
+ * 5. Return as `Response` with a matching `Content-Type` (`image/png` by default)
+ *
+ * The rendering itself is done by {@link renderImage}; use it (or
+ * {@link renderToPng} / {@link renderToSvg}) directly when you need the
+ * bytes rather than a `Response`.
+ *
+ * Status and headers are committed as soon as the constructor returns, so
+ * if the pipeline fails the body errors instead of serving a fallback under
+ * a `200` and a long-lived `Cache-Control`. Only when `onError` is given is
+ * its element (or the plain card) streamed, still under the original status
+ * and headers. Use {@link createImageResponse} when a failure should change
+ * the status and `Cache-Control`.
  *
  * Compatible with TanStack Start, Cloudflare Workers, Deno, and any
  * runtime that supports the Web `Response` API.
@@ -36,98 +177,20 @@ const DEFAULT_HEIGHT = 630
  */
 export class ImageResponse extends Response {
     constructor(element: ReactElement, options: ImageResponseOptions = {}) {
-        const {
-            width = DEFAULT_WIDTH,
-            height = DEFAULT_HEIGHT,
-            fonts,
-            headers: userHeaders,
-            status = 200,
-            debug = false,
-            emoji,
-        } = options
-
-        // Build the async PNG generation pipeline as a ReadableStream
+        const { headers, status = 200, format = 'png' } = options
+
+        // Build the async image generation pipeline as a ReadableStream
         const stream = new ReadableStream({
             async start(controller) {
                 try {
-                    // 1. Resolve fonts
-                    let resolvedFonts: FontConfig[]
-                    if (fonts && fonts.length > 0) {
-                        resolvedFonts = await Promise.all(fonts.map(resolveFont))
-                    } else {
-                        // Default: load Inter 700 for zero-config experience
-                        resolvedFonts = [await loadGoogleFont('Inter', { weight: 700 })]
-                    }
-
-                    // 2. Convert JSX → SVG via satori
-                    const satori = (await import('satori')).default
-                    const satoriOptions: Record<string, unknown> = {
-                        width,
-                        height,
-                        debug,
-                        fonts: resolvedFonts.map((f) => ({
-                            name: f.name,
-                            data: f.data,
-                            weight: f.weight ?? 400,
-                            style: f.style ?? 'normal',
-                        })),
-                    }
-
-                    if (emoji) {
-                        satoriOptions.loadAdditionalAsset = async (
-                            languageCode: string,
-                            segment: string
-                        ) => {
-                            if (languageCode === 'emoji') {
-                                // Fetch emoji SVG from CDN based on chosen source
-                                const code = segment.codePointAt(0)?.toString(16)
-                                const emojiUrls: Record<string, string> = {
-                                    twemoji: `https://cdn.jsdelivr.net/gh/twitter/twemoji@latest/assets/svg/${code}.svg`,
-                                    openmoji: `https://cdn.jsdelivr.net/npm/openmoji@latest/color/svg/${code?.toUpperCase()}.svg`,
-                                    noto: `https://cdn.jsdelivr.net/gh/googlefonts/noto-emoji/svg/emoji_u${code}.svg`,
-                                    fluent: `https://cdn.jsdelivr.net/gh/nicedoc/twemoji/assets/svg/${code}.svg`,
-                                }
-                                const url = emojiUrls[emoji]
-                                if (url) {
-                                    const res = await fetch(url)
-                                    if (res.ok) {
-                                        const svg = await res.text()
-                                        return `data:image/svg+xml;base64,${btoa(svg)}`
-                                    }
-                                }
-                            }
-                            return ''
-                        }
-                    }
-
-                    const svg = await satori(element, satoriOptions as any)
-
-                    // 3. Convert SVG → PNG via resvg-wasm
-                    const { Resvg, initWasm } = await import('@resvg/resvg-wasm')
-                    const { resvgWasm } = await import('./resvg-wasm')
-
-                    // Initialize WASM if not already done
-                    // Note: initWasm usually handles multiple calls, but we can wrap it if needed.
-                    // Converting base64 to Buffer/Uint8Array
-                    // In Node/Edge with Buffer support:
-                    const wasmBuffer = Buffer.from(resvgWasm, 'base64')
-
-                    try {
-                        await initWasm(wasmBuffer)
-                    } catch (e) {
-                        // If already initialized, it might throw, or just work.
-                        // Check specific error if needed, but for now strict init.
-                        // Actually, resvg-wasm initWasm checks if module is set.
-                    }
-
-                    const resvg = new Resvg(svg, {
-                        fitTo: { mode: 'width', value: width },
-                    })
-                    const pngData = resvg.render()
-                    const pngBuffer = pngData.asPng()
-
-                    // 4. Enqueue the PNG buffer and close the stream
-                    controller.enqueue(pngBuffer)
+                    // Headers are already sent: only stream a fallback under
+                    // them when the caller opted in with `onError`
+                    const { result } = await renderResponse(
+                        element,
+                        options,
+                        options.onError !== undefined
+                    )
+                    controller.enqueue(result.data)
                     controller.close()
                 } catch (error) {
                     controller.error(error)
@@ -136,22 +199,61 @@ export class ImageResponse extends Response {
         })
 
         // Merge default headers with user-provided headers
-        const defaultHeaders: Record<string, string> = {
-            'Content-Type': 'image/png',
-            'Cache-Control': 'public, max-age=3600, immutable',
-        }
-
-        const mergedHeaders = new Headers(defaultHeaders)
-        if (userHeaders) {
-            const h = new Headers(userHeaders)
-            h.forEach((value, key) => {
-                mergedHeaders.set(key, value)
-            })
-        }
-
         super(stream, {
-            headers: mergedHeaders,
+            headers: mergeHeaders(
+                {
+                    'Content-Type': CONTENT_TYPES[format],
+                    'Cache-Control': DEFAULT_CACHE_CONTROL,
+                },
+                headers
+            ),
             status,
         })
     }
 }
+
+/**
+ * Render a React element and return a `Response` once the image is done.
+ *
+ * Unlike `new ImageResponse(...)`, the status and headers are only
+ * committed after the pipeline finishes. If it fails, `onError` may pick
+ * a fallback element, status and headers; by default a plain card is
+ * served with `Cache-Control: no-store` so crawlers don't cache it.
+ * When the render queue is full, it responds `503` with `Retry-After`.
+ *
+ * @param element - The JSX element to render
+ * @param options - The same options as {@link ImageResponse}
+ * @returns A `Response` holding the rendered (or fallback) image
+ *
+ * @example
+ * ```tsx
+ * import { createImageResponse } from '@vahlcode/og'
+ *
+ * export async function GET() {
+ *   return createImageResponse(<div style={{ display: 'flex' }}>Hello</div>, {
+ *     onError: (error) => {
+ *       console.error(error)
+ *       return { status: 503 }
+ *     },
+ *   })
+ * }
+ * ```
+ */
+export async function createImageResponse(
+    element: ReactElement,
+    options: ImageResponseOptions = {}
+): Promise<Response> {
+    try {
+        const { result, status, headers } = await renderResponse(element, options)
+        return new Response(result.data as BodyInit, { status, headers })
+    } catch (error) {
+        if (!(error instanceof RenderQueueFullError)) throw error
+        return new Response(null, {
+            status: 503,
+            headers: {
+                'Retry-After': String(error.retryAfter),
+                'Cache-Control': FALLBACK_CACHE_CONTROL,
+            },
+        })
+    }
+}
@@ -0,0 +1,236 @@
+/**
+ * Type and intrinsic size of PNG, JPEG, GIF, WebP, AVIF and SVG images,
+ * read from their headers without decoding them.
+ *
+ * @internal
+ */
+
+/**
+ * Width and height of an image in pixels.
+ */
+export interface ImageSize {
+    width: number
+    height: number
+}
+
+/**
+ * Read the size of an image from its header, or `undefined` if the
+ * format isn't recognised or the header is truncated.
+ */
+export function readImageSize(bytes: Uint8Array): ImageSize | undefined {
+    try {
+        return (
+            readPngSize(bytes) ??
+            readGifSize(bytes) ??
+            readJpegSize(bytes) ??
+            readWebpSize(bytes) ??
+            readAvifSize(bytes) ??
+            readSvgSize(bytes)
+        )
+    } catch (error) {
+        // Truncated headers read past the end of the data
+        if (error instanceof RangeError) return undefined
+        throw error
+    }
+}
+
+/**
+ * Detect an image's MIME type from its magic bytes, or `undefined` if
+ * the format isn't recognised.
+ */
+export function sniffImageType(bytes: Uint8Array): string | undefined {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+    if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) {
+        return 'image/gif'
+    }
+    if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) {
+        return 'image/webp'
+    }
+    // ISO-BMFF `ftyp` box with an AVIF still or sequence brand
+    if (
+        startsWith(bytes, ascii('ftyp'), 4) &&
+        (startsWith(bytes, ascii('avif'), 8) || startsWith(bytes, ascii('avis'), 8))
+    ) {
+        return 'image/avif'
+    }
+    const head = new TextDecoder().decode(bytes.subarray(0, 4096))
+    if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg\b/i.test(head)) {
+        return 'image/svg+xml'
+    }
+    return undefined
+}
+
+/** Whether `bytes` has `signature` at `offset`. */
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+    return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+/** Byte values of an ASCII string. */
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0))
+
+/** Big- and little-endian reads over `bytes`; out of range reads throw. */
+function view(bytes: Uint8Array): DataView {
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+/** PNG: the `IHDR` chunk always comes first. */
+function readPngSize(bytes: Uint8Array): ImageSize | undefined {
+    if (!startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return undefined
+    const data = view(bytes)
+    return { width: data.getUint32(16), height: data.getUint32(20) }
+}
+
+/** GIF: the logical screen size follows the signature. */
+function readGifSize(bytes: Uint8Array): ImageSize | undefined {
+    if (!startsWith(bytes, ascii('GIF87a')) && !startsWith(bytes, ascii('GIF89a'))) {
+        return undefined
+    }
+    const data = view(bytes)
+    return { width: data.getUint16(6, true), height: data.getUint16(8, true) }
+}
+
+/** JPEG: walk the segments to the first start-of-frame marker. */
+function readJpegSize(bytes: Uint8Array): ImageSize | undefined {
+    if (!startsWith(bytes, [0xff, 0xd8])) return undefined
+    const data = view(bytes)
+
+    let offset = 2
+    while (offset < bytes.length) {
+        if (bytes[offset] !== 0xff) return undefined
+        const marker = bytes[offset + 1]!
+        // Fill bytes before a marker
+        if (marker === 0xff) {
+            offset++
+            continue
+        }
+        // Markers without a length: TEM, RST0–7, SOI
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+            offset += 2
+            continue
+        }
+        // SOF0–15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+            return { height: data.getUint16(offset + 5), width: data.getUint16(offset + 7) }
+        }
+        offset += 2 + data.getUint16(offset + 2)
+    }
+    return undefined
+}
+
+/** WebP: lossy (`VP8 `), lossless (`VP8L`) or extended (`VP8X`). */
+function readWebpSize(bytes: Uint8Array): ImageSize | undefined {
+    if (!startsWith(bytes, ascii('RIFF')) || !startsWith(bytes, ascii('WEBP'), 8)) {
+        return undefined
+    }
+    const data = view(bytes)
+
+    if (startsWith(bytes, ascii('VP8 '), 12)) {
+        return {
+            width: data.getUint16(26, true) & 0x3fff,
+            height: data.getUint16(28, true) & 0x3fff,
+        }
+    }
+    if (startsWith(bytes, ascii('VP8L'), 12)) {
+        const bits = data.getUint32(21, true)
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    if (startsWith(bytes, ascii('VP8X'), 12)) {
+        const uint24 = (offset: number) => data.getUint16(offset, true) | (bytes[offset + 2]! << 16)
+        return { width: uint24(24) + 1, height: uint24(27) + 1 }
+    }
+    return undefined
+}
+
+/**
+ * AVIF: the `ispe` (image spatial extent) properties in `meta` → `iprp`
+ * → `ipco`. The largest is the image; the others are grid tiles or
+ * auxiliary images such as the alpha channel.
+ */
+function readAvifSize(bytes: Uint8Array): ImageSize | undefined {
+    if (
+        !startsWith(bytes, ascii('ftyp'), 4) ||
+        (!startsWith(bytes, ascii('avif'), 8) && !startsWith(bytes, ascii('avis'), 8))
+    ) {
+        return undefined
+    }
+    const data = view(bytes)
+
+    const meta = findBox(data, 'meta', 0, bytes.length)
+    // `meta` is a full box: its children follow a version and flags
+    const iprp = meta && findBox(data, 'iprp', meta.start + 4, meta.end)
+    const ipco = iprp && findBox(data, 'ipco', iprp.start, iprp.end)
+    if (!ipco) return undefined
+
+    let size: ImageSize | undefined
+    for (const box of isoBoxes(data, ipco.start, ipco.end)) {
+        if (box.type !== 'ispe') continue
+        const width = data.getUint32(box.start + 4)
+        const height = data.getUint32(box.start + 8)
+        if (!size || width * height > size.width * size.height) size = { width, height }
+    }
+    return size
+}
+
+/** An ISO-BMFF box: its four-character type and where its contents lie. */
+interface IsoBox {
+    type: string
+    start: number
+    end: number
+}
+
+/** The boxes from `start` to `end`, in order. */
+function* isoBoxes(data: DataView, start: number, end: number): Generator<IsoBox> {
+    let offset = start
+    while (offset + 8 <= end) {
+        let size = data.getUint32(offset)
+        let header = 8
+        if (size === 1) {
+            size = Number(data.getBigUint64(offset + 8))
+            header = 16
+        } else if (size === 0) {
+            // The box runs to the end of its parent
+            size = end - offset
+        }
+        if (size < header) throw new RangeError('Malformed ISO-BMFF box')
+
+        const type = String.fromCharCode(
+            ...[4, 5, 6, 7].map((index) => data.getUint8(offset + index))
+        )
+        yield { type, start: offset + header, end: Math.min(offset + size, end) }
+        offset += size
+    }
+}
+
+/** The first box of type `type` from `start` to `end`. */
+function findBox(data: DataView, type: string, start: number, end: number): IsoBox | undefined {
+    for (const box of isoBoxes(data, start, end)) {
+        if (box.type === type) return box
+    }
+    return undefined
+}
+
+/** SVG: `width` and `height` in pixels, or else the `viewBox`. */
+function readSvgSize(bytes: Uint8Array): ImageSize | undefined {
+    const head = new TextDecoder().decode(bytes.subarray(0, 4096))
+    const tag = head.match(/<svg\b[^>]*>/i)?.[0]
+    if (!tag) return undefined
+
+    const attribute = (name: string) =>
+        tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1]
+    const pixels = (value: string | undefined) => {
+        const match = value?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/)
+        return match ? Number(match[1]) : undefined
+    }
+
+    const width = pixels(attribute('width'))
+    const height = pixels(attribute('height'))
+    if (width && height) return { width, height }
+
+    const box = attribute('viewBox')?.trim().split(/[\s,]+/).map(Number)
+    if (box?.length !== 4 || !(box[2]! > 0) || !(box[3]! > 0)) return undefined
+    // A single dimension keeps the viewBox's aspect ratio
+    if (width) return { width, height: (width * box[3]!) / box[2]! }
+    if (height) return { width: (height * box[2]!) / box[3]!, height }
+    return { width: box[2]!, height: box[3]! }
+}
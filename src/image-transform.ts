@@ -0,0 +1,137 @@
+/**
+ * Image transforms for {@link fetchImage}, applied with `sharp`: resizing
+ * with a fit and position, crop shapes, filters and re-encoding.
+ *
+ * @internal
+ */
+
+import type { Sharp } from 'sharp'
+import type { FetchImageOptions, ImagePosition, ImageShape } from './types'
+import { toBytes } from './bytes'
+
+/** Encoder quality when `quality` isn't set, as for renders. */
+const DEFAULT_QUALITY = 80
+
+/** `sharp` names for the edges and corners of {@link ImagePosition}. */
+const GRAVITIES: Record<Exclude<ImagePosition, object>, string> = {
+    center: 'centre',
+    top: 'north',
+    bottom: 'south',
+    left: 'west',
+    right: 'east',
+    'top left': 'northwest',
+    'top right': 'northeast',
+    'bottom left': 'southwest',
+    'bottom right': 'southeast',
+    attention: 'attention',
+    entropy: 'entropy',
+}
+
+/**
+ * The first option that can't be honoured without `sharp`, if any. A
+ * plain resize isn't one: without `sharp` the original image is used.
+ */
+export function sharpOnlyOption(
+    options: FetchImageOptions,
+    mimeType: string
+): keyof FetchImageOptions | undefined {
+    if (options.shape) return 'shape'
+    if (options.blur) return 'blur'
+    if (options.grayscale) return 'grayscale'
+    if (options.format && mimeType !== `image/${options.format}`) return 'format'
+    return undefined
+}
+
+/**
+ * Whether `options` ask for any change to an image of type `mimeType`.
+ */
+export function hasTransforms(options: FetchImageOptions, mimeType: string): boolean {
+    return Boolean(options.width || options.height || sharpOnlyOption(options, mimeType))
+}
+
+/**
+ * Resize, crop, filter and encode `bytes` with `sharp`. The output is PNG
+ * unless `format` is `"jpeg"`.
+ */
+export async function transformImage(
+    sharp: typeof import('sharp'),
+    bytes: Uint8Array,
+    options: FetchImageOptions
+): Promise<{ bytes: Uint8Array; mimeType: string }> {
+    const format = options.format ?? 'png'
+    if (options.shape && format === 'jpeg') {
+        throw new Error(
+            'Image option "shape" needs transparency, which "jpeg" lacks. Use format "png".'
+        )
+    }
+
+    let image = sharp(bytes)
+    if (options.width || options.height) image = await resize(sharp, image, bytes, options)
+    if (options.grayscale) image = image.grayscale()
+    if (options.blur) image = image.blur(options.blur)
+
+    if (options.shape) {
+        // The mask must match the resized size, which is only known once encoded
+        const { data, info } = await image.png().toBuffer({ resolveWithObject: true })
+        // sharp reads any Uint8Array; its types only name `Buffer`
+        const mask = shapeMask(options.shape, info.width, info.height) as Buffer
+        image = sharp(data).composite([{ input: mask, blend: 'dest-in' }])
+    }
+
+    if (format === 'jpeg') {
+        const quality = options.quality ?? DEFAULT_QUALITY
+        const jpeg = await image.flatten({ background: '#ffffff' }).jpeg({ quality }).toBuffer()
+        return { bytes: toBytes(jpeg), mimeType: 'image/jpeg' }
+    }
+    return { bytes: toBytes(await image.png().toBuffer()), mimeType: 'image/png' }
+}
+
+/**
+ * Fit the image to `width` × `height`. A focal point only matters when
+ * `"cover"` crops both sides, so it's cropped by hand around the point;
+ * sharp only knows edges and corners.
+ */
+async function resize(
+    sharp: typeof import('sharp'),
+    image: Sharp,
+    bytes: Uint8Array,
+    options: FetchImageOptions
+): Promise<Sharp> {
+    const { width, height, position = 'center' } = options
+    const fit = options.fit ?? 'cover'
+    const background = { r: 0, g: 0, b: 0, alpha: 0 }
+
+    if (typeof position === 'object') {
+        if (fit !== 'cover' || !width || !height) {
+            return image.resize(width, height, { fit, background })
+        }
+        const source = await sharp(bytes).metadata()
+        if (!source.width || !source.height) {
+            return image.resize(width, height, { fit, background })
+        }
+        const scale = Math.max(width / source.width, height / source.height)
+        const scaledWidth = Math.max(width, Math.round(source.width * scale))
+        const scaledHeight = Math.max(height, Math.round(source.height * scale))
+        const clamp = (value: number, max: number) => Math.min(Math.max(Math.round(value), 0), max)
+        return image.resize(scaledWidth, scaledHeight, { fit: 'fill' }).extract({
+            left: clamp(position.x * scaledWidth - width / 2, scaledWidth - width),
+            top: clamp(position.y * scaledHeight - height / 2, scaledHeight - height),
+            width,
+            height,
+        })
+    }
+
+    return image.resize(width, height, { fit, position: GRAVITIES[position], background })
+}
+
+/**
+ * An SVG that is opaque inside `shape` and transparent outside it, for
+ * compositing with `dest-in`.
+ */
+function shapeMask(shape: ImageShape, width: number, height: number): Uint8Array {
+    const [rx, ry] = shape === 'circle' ? [width / 2, height / 2] : [shape.radius, shape.radius]
+    const body = `<rect width="${width}" height="${height}" rx="${rx}" ry="${ry}"/>`
+    return new TextEncoder().encode(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${body}</svg>`
+    )
+}
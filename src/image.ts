@@ -1,10 +1,35 @@
-import type { FetchImageOptions } from './types'
+import type { CachedImage, FetchImageOptions, ImageInfo, ImageSource } from './types'
+import { base64ToBytes, toBytes, toDataUri } from './bytes'
+import { LRUCache } from './cache'
+import { withRenderScope, type RenderScope } from './scope'
+import {
+    ImageBlockedError,
+    ImageFetchError,
+    ImageFormatError,
+    ImageTooLargeError,
+} from './errors'
+import { checkMimeType, guardedFetch, hasFetchGuards, readBody } from './fetch-guard'
+import { readImageSize, sniffImageType, type ImageSize } from './image-size'
+import { hasTransforms, sharpOnlyOption, transformImage } from './image-transform'
+import { decodeGif, decodeWithWasmCodec, encodePng, needsTranscode } from './image-decode'
+import { readFile, toPath } from './runtime'
+
+/** Downloaded images, unless a `cache` option is given. */
+const imageCache = new LRUCache<string, CachedImage>({
+    maxSize: 100,
+    ttl: 60 * 60 * 1000, // 1 hour
+})
+
+/** Largest image converted to PNG when `maxPixels` isn't set: 50 megapixels. */
+const DEFAULT_MAX_PIXELS = 50_000_000
 
 /**
  * Attempt to dynamically import `sharp`.
  * Returns `null` if sharp is not installed (it's an optional peer dep).
+ *
+ * @internal
  */
-async function tryImportSharp(): Promise<any> {
+export async function tryImportSharp(): Promise<any> {
     try {
         return await import('sharp')
     } catch {
@@ -13,12 +38,9 @@ async function tryImportSharp(): Promise<any> {
 }
 
 /**
- * Infer a MIME type from a URL or content-type header.
+ * Infer a MIME type from the file extension in a URL or path.
  */
-function inferMimeType(url: string, contentType?: string | null): string {
-    if (contentType && contentType.startsWith('image/')) {
-        return contentType.split(';')[0]!.trim()
-    }
+function inferMimeType(url: string): string | undefined {
     const ext = url.split('.').pop()?.split('?')[0]?.toLowerCase()
     switch (ext) {
         case 'png':
@@ -30,23 +52,68 @@ function inferMimeType(url: string, contentType?: string | null): string {
             return 'image/gif'
         case 'webp':
             return 'image/webp'
+        case 'avif':
+            return 'image/avif'
         case 'svg':
             return 'image/svg+xml'
         default:
-            return 'image/png'
+            return undefined
     }
 }
 
 /**
- * Fetch an image from a URL and return it as a base64 data-URI string,
- * suitable for use in `<img src={...} />` within satori JSX.
+ * The type of an image whose bytes weren't recognised: an `image/*`
+ * content-type, or the file extension when there is no content-type.
+ * Anything else, such as an HTML error page, throws an
+ * {@link ImageFormatError} rather than being passed off as an image.
+ */
+function declaredMimeType(name: string, contentType: string | null | undefined): string {
+    const declared = contentType?.split(';')[0]!.trim().toLowerCase()
+    if (declared?.startsWith('image/')) return declared
+
+    const inferred = declared ? undefined : inferMimeType(name)
+    if (inferred) return inferred
+    throw new ImageFormatError(
+        `Image "${name}" is not a recognised image${declared ? ` (${declared})` : ''}`,
+        name,
+        declared || 'application/octet-stream'
+    )
+}
+
+/**
+ * Load an image and return it as a base64 data-URI string, suitable for
+ * use in `<img src={...} />` within satori JSX.
+ *
+ * The image can be an `http(s)` URL, a `file:` URL, an existing `data:`
+ * URI, an `ArrayBuffer`/`Uint8Array` or a `Blob`. Plain file paths are
+ * refused, so user input can't name local files. Its type is detected
+ * from its magic bytes, falling back to the declared content type and
+ * then the file extension.
+ *
+ * If `sharp` is installed, the image can be resized (`width`, `height`,
+ * `fit`, `position`), cropped to a `shape`, blurred, made grayscale and
+ * re-encoded (`format`, `quality`). Without `sharp`, a resize is skipped
+ * and the raw bytes are base64-encoded as-is, while the other transforms
+ * throw. Pass `signal` or `timeoutMs` to bound the download.
  *
- * If `sharp` is installed and `width`/`height` options are provided,
- * the image will be resized before encoding. Without `sharp`, the
- * raw image bytes are base64-encoded as-is.
+ * Formats the renderer can't decode (WebP, AVIF, animated GIF) are
+ * converted to PNG: WebP and AVIF with the optional `@jsquash/webp` and
+ * `@jsquash/avif` wasm codecs or `sharp`, animated GIFs with a built-in
+ * decoder that keeps the first frame. A `decoder` option is tried first.
+ * When nothing can decode the image an {@link ImageFormatError} is thrown.
  *
- * @param url - URL of the image to fetch
- * @param options - Optional width/height for resizing
+ * Downloaded images are cached in memory, and concurrent calls for the
+ * same URL share one download. Pass `cache` to use your own {@link LRUCache}, or
+ * `false` to always download.
+ *
+ * For URLs from users, restrict what may be fetched with `allowedHosts`,
+ * `deniedHosts`, `blockPrivateAddresses`, `maxBytes`, `allowedTypes`
+ * and `maxRedirects`. With any of these set, `file:` URLs are refused
+ * too. Refused fetches throw an
+ * {@link ImageFetchError} subclass.
+ *
+ * @param source - URL, `file:` URL, data-URI, bytes or `Blob` of the image
+ * @param options - Transforms, fetch guards, caching and cancellation
  * @returns A base64 data-URI string (e.g. `"data:image/png;base64,iVBOR..."`)
  *
  * @example
@@ -57,38 +124,402 @@ function inferMimeType(url: string, contentType?: string | null): string {
  *   width: 96,
  *   height: 96,
  * })
+ * const logo = await fetchImage(new URL('./assets/logo.png', import.meta.url))
  * // Use in JSX: <img src={avatar} width={96} height={96} />
  * ```
  */
 export async function fetchImage(
-    url: string,
+    source: ImageSource,
     options: FetchImageOptions = {}
 ): Promise<string> {
-    const response = await fetch(url)
+    return (await loadImage(source, options)).src
+}
+
+/**
+ * Like {@link fetchImage}, but also returns the image's MIME type and its
+ * intrinsic size, read from the PNG, JPEG, GIF, WebP or SVG header
+ * without `sharp`. Satori needs an explicit size for every `<img>`.
+ *
+ * Throws an {@link ImageFetchError} if the size can't be read.
+ *
+ * @param source - The same sources as {@link fetchImage}
+ * @param options - The same options as {@link fetchImage}
+ * @returns The data-URI, MIME type, width and height
+ *
+ * @example
+ * ```ts
+ * import { fetchImageInfo } from '@vahlcode/og'
+ *
+ * const logo = await fetchImageInfo('https://example.com/logo.png')
+ * // Use in JSX: <img src={logo.src} width={logo.width / 2} height={logo.height / 2} />
+ * ```
+ */
+export async function fetchImageInfo(
+    source: ImageSource,
+    options: FetchImageOptions = {}
+): Promise<ImageInfo> {
+    const image = await loadImage(source, options)
+    const { width, height } = image
+    if (width === undefined || height === undefined) {
+        const name = describeSource(source)
+        throw new ImageFetchError(
+            `Could not read the size of image "${name}" (${image.mimeType})`,
+            name
+        )
+    }
+    return { ...image, width, height }
+}
+
+/**
+ * Clear the internal image cache.
+ * Useful for testing or freeing memory in long-running processes.
+ */
+export function clearImageCache(): void {
+    imageCache.clear()
+    inflightImages.clear()
+}
+
+/**
+ * Load an image from any source. Only `http(s)` URLs go through the
+ * cache and shared downloads; everything else is read directly.
+ */
+async function loadImage(source: ImageSource, options: FetchImageOptions): Promise<CachedImage> {
+    if (typeof source === 'string' || source instanceof URL) {
+        const url = source.toString()
+        if (/^https?:/i.test(url)) return loadRemoteImage(url, options)
+    }
+
+    const name = describeSource(source)
+    return withRenderScope(options, 'assets', (scope) =>
+        scope.run('assets', async () => {
+            const { bytes, contentType } = await readImageSource(source, name, options)
+            return encodeImage(bytes, name, contentType, options)
+        })
+    )
+}
+
+/**
+ * A short name for `source` in error messages: the URL or path, the
+ * header of a data-URI, or the kind of binary value.
+ */
+function describeSource(source: ImageSource): string {
+    if (typeof source === 'string' || source instanceof URL) {
+        const url = source.toString()
+        return url.startsWith('data:') ? `${url.slice(0, url.indexOf(','))},…` : url
+    }
+    return source instanceof Blob ? 'Blob' : 'image bytes'
+}
+
+/**
+ * Read the bytes of a local source: a data-URI, a file, a `Blob` or a
+ * binary value, with the content type it declares, if any.
+ */
+async function readImageSource(
+    source: ImageSource,
+    name: string,
+    options: FetchImageOptions
+): Promise<{ bytes: Uint8Array; contentType?: string }> {
+    let image: { bytes: Uint8Array; contentType?: string }
+    if (typeof source === 'string' || source instanceof URL) {
+        const url = source.toString()
+        if (url.startsWith('data:')) {
+            image = parseDataUri(url, name)
+        } else if (!/^file:/i.test(url)) {
+            // Bare strings may be user input, so they never name local files
+            throw new ImageBlockedError(
+                `Image "${name}" is blocked: only http, https, data: and file: URLs are allowed. Pass a file: URL, such as pathToFileURL(path), to read a local file`,
+                name,
+                'protocol'
+            )
+        } else if (hasFetchGuards(options)) {
+            // Guarded strings come from users; they must not name local files
+            throw new ImageBlockedError(
+                `Image "${name}" is blocked: only http, https and data: URLs are allowed`,
+                name,
+                'protocol'
+            )
+        } else {
+            image = { bytes: await readImageFile(source) }
+        }
+    } else if (source instanceof Blob) {
+        image = { bytes: new Uint8Array(await source.arrayBuffer()), contentType: source.type }
+    } else {
+        image = { bytes: toBytes(source) }
+    }
+
+    if (options.maxBytes !== undefined && image.bytes.byteLength > options.maxBytes) {
+        throw new ImageTooLargeError(
+            `Image "${name}" is larger than ${options.maxBytes} bytes`,
+            name,
+            options.maxBytes
+        )
+    }
+    return image
+}
+
+/**
+ * Decode a `data:` URI, base64 or percent-encoded.
+ */
+function parseDataUri(url: string, name: string): { bytes: Uint8Array; contentType: string } {
+    const comma = url.indexOf(',')
+    if (comma === -1) throw new ImageFetchError(`Invalid data URI "${name}"`, name)
+
+    const [contentType = '', ...params] = url.slice(5, comma).split(';')
+    const data = url.slice(comma + 1)
+    const bytes = params.some((param) => param.toLowerCase() === 'base64')
+        ? base64ToBytes(decodeURIComponent(data))
+        : new TextEncoder().encode(decodeURIComponent(data))
+    return { bytes, contentType }
+}
+
+/**
+ * Read an image from a `file:` URL.
+ */
+async function readImageFile(source: string | URL): Promise<Uint8Array> {
+    const path = toPath(source)
+    try {
+        return await readFile(path)
+    } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') {
+            throw new ImageFetchError(`Image not found at "${path}"`, path)
+        }
+        throw error
+    }
+}
+
+/**
+ * Serve an image from the cache, or download it, sharing the download
+ * with concurrent callers.
+ */
+async function loadRemoteImage(url: string, options: FetchImageOptions): Promise<CachedImage> {
+    const cache = options.cache === false ? undefined : (options.cache ?? imageCache)
+    const key = imageCacheKey(url, options)
+    const cached = cache?.get(key)
+    if (cached) return cached
+
+    const image = await withRenderScope(options, 'assets', (scope) =>
+        scope.run('assets', () => joinDownload(key, url, options, scope))
+    )
+    cache?.set(key, image)
+    return image
+}
+
+/**
+ * Build a cache key from the URL and every option that changes the
+ * result: the transforms and the fetch guards.
+ */
+function imageCacheKey(url: string, options: FetchImageOptions): string {
+    return JSON.stringify([
+        url,
+        options.width,
+        options.height,
+        options.fit,
+        options.position,
+        options.shape,
+        options.blur,
+        options.grayscale,
+        options.format,
+        options.quality,
+        options.allowedHosts?.map(String),
+        options.deniedHosts?.map(String),
+        options.blockPrivateAddresses,
+        options.maxBytes,
+        options.maxPixels,
+        options.allowedTypes,
+        options.maxRedirects,
+    ])
+}
+
+/**
+ * A download shared by every caller that wants the same image.
+ */
+interface InflightImage {
+    image: Promise<CachedImage>
+    /** Cancels the download; aborted once every waiting caller has given up. */
+    controller: AbortController
+    waiters: number
+}
+
+/**
+ * Downloads in flight, by cache key.
+ */
+const inflightImages = new Map<string, InflightImage>()
+
+/**
+ * Wait for the download of `url`, starting it if no caller has. A caller
+ * that is cancelled stops waiting at once; the download itself is only
+ * cancelled when no one is left waiting. Failures aren't shared with
+ * later callers.
+ */
+async function joinDownload(
+    key: string,
+    url: string,
+    options: FetchImageOptions,
+    scope: RenderScope
+): Promise<CachedImage> {
+    let load = inflightImages.get(key)
+    if (!load) {
+        const controller = new AbortController()
+        const started: InflightImage = {
+            image: downloadImage(url, options, controller.signal),
+            controller,
+            waiters: 0,
+        }
+        inflightImages.set(key, started)
+        started.image
+            .finally(() => forgetDownload(key, started))
+            .catch(() => {
+                // Reported to the callers that joined the download
+            })
+        load = started
+    }
+
+    const joined = load
+    joined.waiters++
+    try {
+        return await scope.race(() => joined.image)
+    } finally {
+        joined.waiters--
+        if (joined.waiters === 0 && scope.signal?.aborted) {
+            forgetDownload(key, joined)
+            joined.controller.abort(scope.signal.reason)
+        }
+    }
+}
+
+/**
+ * Stop offering `load` to new callers.
+ */
+function forgetDownload(key: string, load: InflightImage): void {
+    if (inflightImages.get(key) === load) inflightImages.delete(key)
+}
+
+/**
+ * Download an image and encode it.
+ */
+async function downloadImage(
+    url: string,
+    options: FetchImageOptions,
+    signal: AbortSignal
+): Promise<CachedImage> {
+    const response = hasFetchGuards(options)
+        ? await guardedFetch(url, options, signal)
+        : await (options.fetch ?? globalThis.fetch)(url, { signal })
     if (!response.ok) {
-        throw new Error(
-            `Failed to fetch image from "${url}": ${response.status} ${response.statusText}`
+        await response.body?.cancel()
+        throw new ImageFetchError(
+            `Failed to fetch image from "${url}": ${response.status} ${response.statusText}`,
+            url
         )
     }
 
     const contentType = response.headers.get('content-type')
-    let buffer = Buffer.from(await response.arrayBuffer())
-    let mimeType = inferMimeType(url, contentType)
+    if (options.allowedTypes) {
+        // Check what the server claims, not what the URL suggests
+        const declared = contentType?.split(';')[0]!.trim().toLowerCase()
+        const mimeType = declared || inferMimeType(url) || 'application/octet-stream'
+        checkMimeType(url, mimeType, options.allowedTypes)
+    }
+    const bytes = await readBody(response, url, options.maxBytes)
+    return encodeImage(bytes, url, contentType, options)
+}
 
-    // Resize with sharp if available and dimensions specified
-    if (options.width || options.height) {
+/**
+ * Encode image bytes as a data-URI, transforming them if requested. The type is
+ * sniffed from the bytes, then taken from `contentType` or the extension
+ * of `name`; bytes that aren't declared an image throw.
+ */
+async function encodeImage(
+    bytes: Uint8Array,
+    name: string,
+    contentType: string | null | undefined,
+    options: FetchImageOptions
+): Promise<CachedImage> {
+    let mimeType = sniffImageType(bytes) ?? declaredMimeType(name, contentType)
+    if (options.allowedTypes) checkMimeType(name, mimeType, options.allowedTypes)
+
+    if (hasTransforms(options, mimeType)) {
         const sharpModule = await tryImportSharp()
         if (sharpModule) {
             const sharp = sharpModule.default ?? sharpModule
-            buffer = await sharp(buffer)
-                .resize(options.width, options.height, { fit: 'cover' })
-                .png()
-                .toBuffer()
-            mimeType = 'image/png'
+            const transformed = await transformImage(sharp, bytes, options)
+            bytes = transformed.bytes
+            mimeType = transformed.mimeType
+        } else {
+            // Formats the renderer can't decode are converted to PNG below anyway
+            const output = needsTranscode(bytes, mimeType) ? 'image/png' : mimeType
+            const option = sharpOnlyOption(options, output)
+            if (option) {
+                throw new Error(
+                    `Image option "${option}" requires the optional "sharp" dependency. Install it or remove the option.`
+                )
+            }
+            // A plain resize without sharp returns the original image
         }
-        // If sharp is not available, we just return the original image
     }
 
-    const base64 = buffer.toString('base64')
-    return `data:${mimeType};base64,${base64}`
+    if (needsTranscode(bytes, mimeType)) {
+        bytes = await transcodeToPng(bytes, mimeType, name, options)
+        mimeType = 'image/png'
+    }
+
+    return { src: toDataUri(bytes, mimeType), mimeType, ...readImageSize(bytes) }
+}
+
+/**
+ * Re-encode an image the renderer can't decode (WebP, AVIF, animated GIF)
+ * as PNG, with the `decoder` option, the optional `@jsquash` wasm codecs,
+ * `sharp` or the built-in GIF decoder, in that order. Animated images
+ * keep their first frame. Images over `maxPixels` are refused before
+ * anything is allocated for their pixels.
+ */
+async function transcodeToPng(
+    bytes: Uint8Array,
+    mimeType: string,
+    name: string,
+    options: FetchImageOptions
+): Promise<Uint8Array> {
+    const maxPixels = options.maxPixels ?? DEFAULT_MAX_PIXELS
+    const size = readImageSize(bytes)
+    if (!size) {
+        throw new ImageFormatError(
+            `Image "${name}" is ${mimeType}, but its size can't be read to convert it to PNG`,
+            name,
+            mimeType
+        )
+    }
+    checkPixels(name, mimeType, size, maxPixels)
+
+    const decoded =
+        (await options.decoder?.(bytes, mimeType)) ?? (await decodeWithWasmCodec(bytes, mimeType))
+    if (decoded) {
+        checkPixels(name, mimeType, decoded, maxPixels)
+        return encodePng(decoded)
+    }
+
+    const sharpModule = await tryImportSharp()
+    if (sharpModule) {
+        const sharp = sharpModule.default ?? sharpModule
+        return toBytes(await sharp(bytes).png().toBuffer())
+    }
+    if (mimeType === 'image/gif') return encodePng(decodeGif(bytes))
+
+    throw new ImageFormatError(
+        `Image "${name}" is ${mimeType}, which the renderer can't decode. Install "@jsquash/${mimeType.slice(6)}" or "sharp" to convert it to PNG.`,
+        name,
+        mimeType
+    )
+}
+
+/**
+ * Throw if an image of `size` is too large to decode, as a decompression
+ * bomb would be.
+ */
+function checkPixels(name: string, mimeType: string, size: ImageSize, maxPixels: number): void {
+    if (size.width * size.height <= maxPixels) return
+    throw new ImageFormatError(
+        `Image "${name}" is ${size.width}×${size.height}, more than the ${maxPixels} pixels it may have to be converted to PNG`,
+        name,
+        mimeType
+    )
 }
@@ -4,18 +4,92 @@
  * @packageDocumentation
  */
 
-export { ImageResponse } from './image-response'
-export { loadGoogleFont, clearFontCache } from './font'
-export { fetchImage } from './image'
+export { ImageResponse, createImageResponse } from './image-response'
+export { renderToSvg, renderToPng, renderImage } from './render'
+export {
+    loadGoogleFont,
+    loadGoogleFontFamily,
+    preloadFonts,
+    clearFontCache,
+} from './font'
+export { createGoogleFontsProvider, googleFontsProvider } from './font-provider'
+export { FontRegistry, fontRegistry, registerFonts } from './font-registry'
+export { NOTO_FALLBACK_FONTS } from './fallback-fonts'
+export { checkFontCoverage } from './coverage'
+export { clearEmojiCache } from './emoji'
+export { loadIcon, clearIconCache } from './icon'
+export { fetchImage, fetchImageInfo, clearImageCache } from './image'
+export {
+    createResvgWasmRasterizer,
+    createResvgJsRasterizer,
+    createSharpRasterizer,
+} from './rasterizer'
 export { LRUCache } from './cache'
+export { initOg } from './wasm'
+export { RenderQueue, renderQueue } from './queue'
+export {
+    RenderAbortError,
+    RenderTimeoutError,
+    RenderQueueFullError,
+    FontFormatError,
+    ImageFetchError,
+    ImageBlockedError,
+    ImageTooLargeError,
+    ImageTypeError,
+    ImageRedirectError,
+    ImageFormatError,
+} from './errors'
 
 // Re-export all types
 export type {
     ImageResponseOptions,
+    RenderOptions,
+    RenderResult,
+    RenderErrorFallback,
+    RenderPhase,
+    RenderMetrics,
+    AbortOptions,
+    FetchFunction,
+    FetchOptions,
+    ImageFormat,
+    Rasterizer,
+    RasterizerName,
+    RasterizeOptions,
     FontConfig,
+    FontFormat,
+    FontSource,
+    FallbackFonts,
+    EmojiSet,
+    EmojiPack,
+    AssetLoader,
+    AssetResult,
+    IconSet,
+    BuiltinIconSet,
+    LoadIconOptions,
+    FontCoverageReport,
+    TextCoverage,
+    FontFileSource,
+    FontProvider,
+    FontProviderOptions,
+    FontFaceRequest,
+    GoogleFontsProviderOptions,
     FetchImageOptions,
+    ImageSource,
+    ImageFit,
+    ImagePosition,
+    FocalPoint,
+    ImageShape,
+    ImageDecoder,
+    DecodedImage,
+    ImageInfo,
+    CachedImage,
+    ImageBlockReason,
     LoadGoogleFontOptions,
+    LoadGoogleFontFamilyOptions,
     CacheOptions,
+    RenderQueueOptions,
+    InitOgOptions,
+    WasmSource,
     CreateOgImageOptions,
     OgRenderFunction,
 } from './types'
@@ -0,0 +1,110 @@
+import type { RenderQueueOptions } from './types'
+import { RenderQueueFullError } from './errors'
+
+/**
+ * Bounds how many renders run at once.
+ *
+ * Each satori + resvg render allocates a full RGBA bitmap, so a burst of
+ * requests can exhaust memory. Renders beyond `maxConcurrentRenders` wait
+ * in a FIFO queue; once `maxQueue` renders are waiting, new ones are
+ * rejected with a {@link RenderQueueFullError}.
+ *
+ * All renders share {@link renderQueue} unless `queue` is passed in the
+ * render options.
+ *
+ * @example
+ * ```ts
+ * import { renderQueue } from '@vahlcode/og'
+ *
+ * renderQueue.configure({ maxConcurrentRenders: 4, maxQueue: 32 })
+ * metrics.gauge('og.queue_depth', renderQueue.pending)
+ * ```
+ */
+export class RenderQueue {
+    private maxConcurrentRenders = Infinity
+    private maxQueue = Infinity
+    private retryAfter = 5
+    private running = 0
+    private readonly waiting: Array<() => void> = []
+
+    constructor(options: RenderQueueOptions = {}) {
+        this.configure(options)
+    }
+
+    /**
+     * Update the limits. Omitted options keep their current value.
+     * Raising `maxConcurrentRenders` starts waiting renders immediately.
+     */
+    configure(options: RenderQueueOptions): void {
+        this.maxConcurrentRenders =
+            options.maxConcurrentRenders ?? this.maxConcurrentRenders
+        this.maxQueue = options.maxQueue ?? this.maxQueue
+        this.retryAfter = options.retryAfter ?? this.retryAfter
+        this.drain()
+    }
+
+    /** The number of renders currently running. */
+    get active(): number {
+        return this.running
+    }
+
+    /** The number of renders waiting for a slot (the queue depth). */
+    get pending(): number {
+        return this.waiting.length
+    }
+
+    /**
+     * Run `task` once a render slot is free.
+     *
+     * @throws {RenderQueueFullError} If `maxQueue` renders are already waiting.
+     */
+    async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        await this.acquire(signal)
+        try {
+            return await task()
+        } finally {
+            this.running--
+            this.drain()
+        }
+    }
+
+    private acquire(signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) return Promise.reject(signal.reason)
+
+        if (this.running < this.maxConcurrentRenders) {
+            this.running++
+            return Promise.resolve()
+        }
+        if (this.waiting.length >= this.maxQueue) {
+            return Promise.reject(new RenderQueueFullError(this.retryAfter))
+        }
+
+        return new Promise((resolve, reject) => {
+            const start = () => {
+                signal?.removeEventListener('abort', onAbort)
+                this.running++
+                resolve()
+            }
+            const onAbort = () => {
+                const index = this.waiting.indexOf(start)
+                if (index !== -1) this.waiting.splice(index, 1)
+                reject(signal!.reason)
+            }
+            this.waiting.push(start)
+            signal?.addEventListener('abort', onAbort, { once: true })
+        })
+    }
+
+    /** Start waiting renders while slots are free. */
+    private drain(): void {
+        while (this.running < this.maxConcurrentRenders && this.waiting.length > 0) {
+            this.waiting.shift()!()
+        }
+    }
+}
+
+/**
+ * The render queue shared by every render that doesn't pass its own
+ * `queue`. Unbounded until configured.
+ */
+export const renderQueue = new RenderQueue()
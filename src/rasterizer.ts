@@ -0,0 +1,111 @@
+import type { Rasterizer, RasterizerName } from './types'
+import { tryImportSharp } from './image'
+import { initOg } from './wasm'
+import { toBytes } from './bytes'
+
+/**
+ * Rasterizer backed by `@resvg/resvg-wasm`. Runs on any runtime with
+ * WebAssembly, including edge workers. This is the default.
+ *
+ * The wasm binary is loaded through {@link initOg}: call it first to
+ * supply your own, otherwise the inlined copy is used.
+ *
+ * @example
+ * ```ts
+ * new ImageResponse(element, { renderer: createResvgWasmRasterizer() })
+ * ```
+ */
+export function createResvgWasmRasterizer(): Rasterizer {
+    return {
+        name: 'resvg-wasm',
+        async render(svg, { width }) {
+            await initOg()
+            const { Resvg } = await import('@resvg/resvg-wasm')
+
+            const resvg = new Resvg(svg, {
+                fitTo: { mode: 'width', value: width },
+            })
+            return resvg.render().asPng()
+        },
+    }
+}
+
+/**
+ * Rasterizer backed by the native `@resvg/resvg-js` bindings.
+ * Several times faster than wasm on Node servers; requires the optional
+ * `@resvg/resvg-js` dependency.
+ */
+export function createResvgJsRasterizer(): Rasterizer {
+    return {
+        name: 'resvg-js',
+        async render(svg, { width }) {
+            let resvgModule: typeof import('@resvg/resvg-js')
+            try {
+                resvgModule = await import('@resvg/resvg-js')
+            } catch {
+                throw new Error(
+                    'The "resvg-js" renderer requires the optional "@resvg/resvg-js" dependency.'
+                )
+            }
+            const resvg = new resvgModule.Resvg(svg, {
+                fitTo: { mode: 'width', value: width },
+            })
+            return toBytes(resvg.render().asPng())
+        },
+    }
+}
+
+/**
+ * Rasterizer backed by `sharp` (librsvg). Requires the optional `sharp`
+ * dependency. The SVG is rendered at a density matching `scale` so
+ * supersampled output stays sharp.
+ */
+export function createSharpRasterizer(): Rasterizer {
+    return {
+        name: 'sharp',
+        async render(svg, { width, scale }) {
+            const sharpModule = await tryImportSharp()
+            if (!sharpModule) {
+                throw new Error(
+                    'The "sharp" renderer requires the optional "sharp" dependency.'
+                )
+            }
+            const sharp = sharpModule.default ?? sharpModule
+            const png = await sharp(new TextEncoder().encode(svg), {
+                density: 72 * scale,
+            })
+                .resize(width)
+                .png()
+                .toBuffer()
+            return toBytes(png)
+        },
+    }
+}
+
+/** Built-in rasterizers, created on first use. */
+const builtInRasterizers: Partial<Record<RasterizerName, Rasterizer>> = {}
+
+/** Factories for the built-in rasterizer names. */
+const rasterizerFactories: Record<RasterizerName, () => Rasterizer> = {
+    'resvg-wasm': createResvgWasmRasterizer,
+    'resvg-js': createResvgJsRasterizer,
+    sharp: createSharpRasterizer,
+}
+
+/**
+ * Resolve the `renderer` option to a {@link Rasterizer}, defaulting to
+ * resvg-wasm.
+ *
+ * @internal
+ */
+export function resolveRasterizer(
+    renderer: Rasterizer | RasterizerName = 'resvg-wasm'
+): Rasterizer {
+    if (typeof renderer !== 'string') return renderer
+
+    const factory = rasterizerFactories[renderer]
+    if (!factory) {
+        throw new Error(`Unknown renderer "${renderer}"`)
+    }
+    return (builtInRasterizers[renderer] ??= factory())
+}
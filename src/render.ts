@@ -0,0 +1,477 @@
+import type { ReactElement } from 'react'
+import type {
+    RenderOptions,
+    RenderResult,
+    RenderMetrics,
+    ImageFormat,
+    FontConfig,
+} from './types'
+import { loadGoogleFont, resolveFont, isFontCached } from './font'
+import { tryImportSharp } from './image'
+import { resolveRasterizer } from './rasterizer'
+import { toBytes } from './bytes'
+import { RenderScope, withRenderScope } from './scope'
+import { renderQueue } from './queue'
+import { collectText, collectTextNodes, replaceIconTokens } from './element'
+import { analyzeCoverage } from './coverage'
+import { resolveLocalFont } from './font-registry'
+import { loadEmoji } from './emoji'
+import {
+    NOTO_FALLBACK_FONTS,
+    findFallbackFont,
+    loadFallbackFonts,
+} from './fallback-fonts'
+
+/**
+ * Default image dimensions matching the standard OG image spec.
+ */
+const DEFAULT_WIDTH = 1200
+const DEFAULT_HEIGHT = 630
+
+/**
+ * Default encoder quality for lossy output formats.
+ */
+const DEFAULT_QUALITY = 80
+
+/**
+ * `Content-Type` for each supported output format.
+ */
+export const CONTENT_TYPES: Record<ImageFormat, string> = {
+    png: 'image/png',
+    svg: 'image/svg+xml',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    avif: 'image/avif',
+}
+
+/**
+ * Drop repeated characters, keeping the first of each, so subset requests
+ * stay short.
+ */
+function uniqueChars(text: string): string {
+    return [...new Set(text)].join('')
+}
+
+/**
+ * Resolve the fonts for a render, auto-loading Inter 700 if none are given.
+ * Registered fonts are used before the network; Google Fonts are subset
+ * to `text` when it is given. Counts font cache hits and misses on the
+ * scope.
+ */
+async function resolveFonts(
+    options: RenderOptions,
+    text: string | undefined,
+    scope: RenderScope
+): Promise<FontConfig[]> {
+    const { fonts, offline, fontRegistry, fontProvider, fetch } = options
+    const signal = scope.signal
+    const countCacheUse = (font: FontConfig) => {
+        if (font.data || resolveLocalFont(font, { fontRegistry })) return
+        if (isFontCached(font, { text, fontProvider })) scope.fontCacheHits++
+        else scope.fontCacheMisses++
+    }
+
+    if (fonts && fonts.length > 0) {
+        fonts.forEach(countCacheUse)
+        return Promise.all(
+            fonts.map((font) =>
+                resolveFont(font, {
+                    text,
+                    offline,
+                    fontRegistry,
+                    fontProvider,
+                    fetch,
+                    signal,
+                })
+            )
+        )
+    }
+    // Default: load Inter 700 for zero-config experience
+    const inter: FontConfig = { name: 'Inter', weight: 700 }
+    const local = resolveLocalFont(inter, { offline, fontRegistry })
+    if (local) return [local]
+    countCacheUse(inter)
+    return [
+        await loadGoogleFont('Inter', { weight: 700, text, fontProvider, fetch, signal }),
+    ]
+}
+
+/**
+ * Convert a resolved font to the shape satori expects.
+ */
+function toSatoriFont(font: FontConfig) {
+    return {
+        name: font.name,
+        data: font.data!,
+        weight: font.weight ?? 400,
+        style: font.style ?? 'normal',
+    }
+}
+
+/**
+ * Characters drawn as emoji images rather than with fonts.
+ */
+function isEmoji(char: string): boolean {
+    return /\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u20e3/u.test(char)
+}
+
+/**
+ * Build satori's `loadAdditionalAsset` callback: the `loadAsset` hook
+ * first, then emoji from the chosen source, and fallback fonts for
+ * scripts the main `fonts` can't display.
+ */
+function createAssetLoader(
+    options: RenderOptions,
+    fonts: FontConfig[],
+    scope: RenderScope,
+    fallbackFontsUsed: FontConfig[]
+) {
+    const { emoji, emojiPack, fallbackFonts, loadAsset, offline, fontRegistry, fontProvider } =
+        options
+    const fallbacks =
+        fallbackFonts === true ? NOTO_FALLBACK_FONTS : fallbackFonts || undefined
+    const weights = [...new Set(fonts.map((font) => font.weight ?? 400))]
+
+    return async (
+        languageCode: string,
+        segment: string
+    ): Promise<string | ReturnType<typeof toSatoriFont>[]> => {
+        if (loadAsset) {
+            const result = await scope.asset(async () => loadAsset(languageCode, segment))
+            if (typeof result === 'string' && result) return result
+            if (Array.isArray(result) && result.length > 0) {
+                const loaded = await scope.asset(() =>
+                    Promise.all(
+                        result.map((font) =>
+                            resolveFont(font, {
+                                offline,
+                                fontRegistry,
+                                fontProvider,
+                                fetch: options.fetch,
+                                signal: scope.signal,
+                            })
+                        )
+                    )
+                )
+                fallbackFontsUsed.push(...loaded)
+                return loaded.map(toSatoriFont)
+            }
+        }
+
+        if (languageCode !== 'emoji') {
+            const fallback = fallbacks && findFallbackFont(fallbacks, languageCode)
+            if (!fallback) return ''
+            const loaded = await scope.asset(() =>
+                loadFallbackFonts(fallback, segment, weights, {
+                    offline,
+                    fontRegistry,
+                    fontProvider,
+                    fetch: options.fetch,
+                    signal: scope.signal,
+                })
+            )
+            fallbackFontsUsed.push(...loaded)
+            return loaded.map(toSatoriFont)
+        }
+
+        if (emoji || emojiPack) {
+            const dataUri = await scope.asset(() =>
+                loadEmoji(segment, { ...options, signal: scope.signal })
+            )
+            if (dataUri) return dataUri
+        }
+        return ''
+    }
+}
+
+/**
+ * Transcode a rendered PNG into a lossy format using `sharp`.
+ * Throws if sharp is not installed, since resvg can only emit PNG.
+ */
+async function encodeWithSharp(
+    png: Uint8Array,
+    format: 'jpeg' | 'webp' | 'avif',
+    quality: number
+): Promise<Uint8Array> {
+    const sharpModule = await tryImportSharp()
+    if (!sharpModule) {
+        throw new Error(
+            `Encoding to "${format}" requires the optional "sharp" dependency. Install it or use format "png" or "svg".`
+        )
+    }
+    const sharp = sharpModule.default ?? sharpModule
+    return toBytes(await sharp(png)[format]({ quality }).toBuffer())
+}
+
+/**
+ * Wait for a slot in the render's queue, then run `task` in it.
+ */
+function queued<T>(
+    options: RenderOptions,
+    scope: RenderScope,
+    task: () => Promise<T>
+): Promise<T> {
+    const queue = options.queue ?? renderQueue
+    const enqueuedAt = performance.now()
+    scope.enter('queue')
+    return scope.race(() =>
+        queue.run(() => {
+            scope.record('queue', performance.now() - enqueuedAt)
+            return task()
+        }, scope.signal)
+    )
+}
+
+/**
+ * Run a render in a fresh scope and queue slot, then report its metrics
+ * to `onMetrics`.
+ */
+function runPipeline<T>(
+    options: RenderOptions,
+    task: (scope: RenderScope) => Promise<T>,
+    describeOutput: (result: T) => Pick<RenderMetrics, 'bytes' | 'format'>
+): Promise<T> {
+    return withRenderScope(options, 'queue', async (scope) => {
+        const result = await queued(options, scope, () => task(scope))
+        options.onMetrics?.({
+            ...describeOutput(result),
+            durations: { ...scope.durations, total: scope.elapsed },
+            fontCacheHits: scope.fontCacheHits,
+            fontCacheMisses: scope.fontCacheMisses,
+        })
+        return result
+    })
+}
+
+/**
+ * Resolve fonts and lay the element out with satori.
+ */
+async function layout(
+    element: ReactElement,
+    options: RenderOptions,
+    scope: RenderScope
+): Promise<string> {
+    const {
+        width = DEFAULT_WIDTH,
+        height = DEFAULT_HEIGHT,
+        debug = false,
+        emoji,
+        emojiPack,
+        fallbackFonts,
+        loadAsset,
+        subsetFonts = false,
+        onMissingGlyphs,
+    } = options
+
+    const resolvedFonts = await scope.run('fonts', () =>
+        resolveFonts(
+            options,
+            subsetFonts ? uniqueChars(collectText(element)) : undefined,
+            scope
+        )
+    )
+
+    return scope.run('layout', async () => {
+        // Swap `:name:` tokens for the images `loadAsset` gives them
+        const tree = loadAsset
+            ? await scope.asset(() =>
+                  replaceIconTokens(element, async (name) => {
+                      const result = await loadAsset('icon', name)
+                      return typeof result === 'string' && result ? result : undefined
+                  })
+              )
+            : element
+
+        const satori = (await import('satori')).default
+        const satoriOptions: Record<string, unknown> = {
+            width,
+            height,
+            debug,
+            fonts: resolvedFonts.map(toSatoriFont),
+        }
+
+        // Fallback fonts satori loads, for the glyph coverage check
+        const fallbackFontsUsed: FontConfig[] = []
+        if (emoji || emojiPack || fallbackFonts || loadAsset) {
+            satoriOptions.loadAdditionalAsset = createAssetLoader(
+                options,
+                resolvedFonts,
+                scope,
+                fallbackFontsUsed
+            )
+        }
+
+        const svg = await satori(tree as ReactElement, satoriOptions as any)
+
+        if (onMissingGlyphs) {
+            const report = analyzeCoverage(
+                collectTextNodes(tree),
+                [...resolvedFonts, ...fallbackFontsUsed],
+                emoji || emojiPack ? isEmoji : undefined
+            )
+            if (report.missing.length > 0) onMissingGlyphs(report)
+        }
+
+        return svg
+    })
+}
+
+/**
+ * Render a React element to an SVG string with satori.
+ *
+ * Fonts are resolved the same way as in {@link ImageResponse}: Inter 700
+ * is auto-loaded when `fonts` is omitted.
+ *
+ * @param element - The JSX element to render
+ * @param options - Dimensions, fonts, emoji source and cancellation
+ * @returns The SVG markup produced by satori
+ *
+ * @example
+ * ```tsx
+ * import { renderToSvg } from '@vahlcode/og'
+ *
+ * const svg = await renderToSvg(<div style={{ display: 'flex' }}>Hello</div>)
+ * ```
+ */
+export async function renderToSvg(
+    element: ReactElement,
+    options: RenderOptions = {}
+): Promise<string> {
+    return runPipeline(
+        options,
+        (scope) => layout(element, options, scope),
+        (svg) => ({
+            bytes: new TextEncoder().encode(svg).byteLength,
+            format: 'svg',
+        })
+    )
+}
+
+/**
+ * Compute the output scale for a render, validating `scale`.
+ */
+function rasterScale(options: RenderOptions): number {
+    const { scale = 1 } = options
+    if (!Number.isFinite(scale) || scale <= 0) {
+        throw new Error(`Invalid scale ${scale}: expected a positive number`)
+    }
+    return scale
+}
+
+/**
+ * Rasterize an SVG string to PNG bytes with the configured renderer.
+ */
+async function svgToPng(
+    svg: string,
+    options: RenderOptions,
+    scope: RenderScope
+): Promise<Uint8Array> {
+    const { width = DEFAULT_WIDTH, renderer } = options
+    const scale = rasterScale(options)
+    const rasterizer = resolveRasterizer(renderer)
+    return scope.run('rasterize', () =>
+        rasterizer.render(svg, {
+            width: Math.round(width * scale),
+            scale,
+            signal: scope.signal,
+        })
+    )
+}
+
+/**
+ * Render a React element to PNG bytes.
+ *
+ * Runs the same satori → rasterizer pipeline as {@link ImageResponse}, without
+ * wrapping the result in a `Response`. Useful for build scripts, email
+ * generators and tests. Pass `scale` for a retina or print-quality bitmap.
+ *
+ * @param element - The JSX element to render
+ * @param options - Dimensions, scale, fonts, emoji source and cancellation
+ * @returns The encoded PNG bytes
+ *
+ * @example
+ * ```tsx
+ * import { writeFile } from 'node:fs/promises'
+ * import { renderToPng } from '@vahlcode/og'
+ *
+ * const png = await renderToPng(<div style={{ display: 'flex' }}>Hello</div>)
+ * await writeFile('og.png', png)
+ * ```
+ */
+export async function renderToPng(
+    element: ReactElement,
+    options: RenderOptions = {}
+): Promise<Uint8Array> {
+    const { data } = await renderImage(element, { ...options, format: 'png' })
+    return data
+}
+
+/**
+ * Encode satori's SVG output in the requested `format`.
+ */
+async function encodeSvg(
+    svg: string,
+    options: RenderOptions,
+    scope: RenderScope
+): Promise<RenderResult> {
+    const { format = 'png', quality = DEFAULT_QUALITY } = options
+
+    let data: Uint8Array
+    if (format === 'svg') {
+        data = new TextEncoder().encode(svg)
+    } else {
+        const png = await svgToPng(svg, options, scope)
+        data =
+            format === 'png'
+                ? png
+                : await scope.run('rasterize', () =>
+                      encodeWithSharp(png, format, quality)
+                  )
+    }
+
+    return { data, format, contentType: CONTENT_TYPES[format] }
+}
+
+/**
+ * Render a React element in the requested `format`, returning the bytes
+ * together with the matching `Content-Type`.
+ *
+ * This is the pipeline behind {@link ImageResponse}.
+ *
+ * @param element - The JSX element to render
+ * @param options - Dimensions, fonts, emoji source, output format and cancellation
+ * @returns The encoded bytes, format and content type
+ */
+export async function renderImage(
+    element: ReactElement,
+    options: RenderOptions = {}
+): Promise<RenderResult> {
+    return runPipeline(
+        options,
+        async (scope) => {
+            const svg = await layout(element, options, scope)
+            return encodeSvg(svg, options, scope)
+        },
+        (result) => ({ bytes: result.data.byteLength, format: result.format })
+    )
+}
+
+/**
+ * Render the plain card served when the pipeline fails and `onError`
+ * supplies no element. It is a hand-written SVG, so it needs neither
+ * fonts nor satori.
+ *
+ * @internal
+ */
+export async function renderFallbackCard(
+    options: RenderOptions = {}
+): Promise<RenderResult> {
+    const { width = DEFAULT_WIDTH, height = DEFAULT_HEIGHT } = options
+    const svg =
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        `<rect width="${width}" height="${height}" fill="#111111"/>` +
+        `</svg>`
+    return withRenderScope(options, 'rasterize', (scope) =>
+        encodeSvg(svg, options, scope)
+    )
+}
@@ -0,0 +1,63 @@
+/**
+ * Edge runtime stand-ins for `runtime.ts`, swapped in by the edge build.
+ * There's no filesystem, so reading files throws, and hostnames can't be
+ * resolved.
+ *
+ * @internal
+ */
+
+import type { FetchFunction } from './types'
+
+/** A path for a path or `file:` URL. */
+export function toPath(path: string | URL): string {
+    return path instanceof URL || path.startsWith('file:')
+        ? decodeURIComponent(new URL(path).pathname)
+        : path
+}
+
+/** Join path segments with `/`. */
+export function joinPath(...segments: string[]): string {
+    return segments.join('/').replace(/\/{2,}/g, '/')
+}
+
+/** Throws: there is no filesystem to read from. */
+export async function readFile(path: string): Promise<Uint8Array> {
+    throw noFilesystem(path)
+}
+
+/** Throws: there is no filesystem to read from. */
+export async function readTextFile(path: string): Promise<string> {
+    throw noFilesystem(path)
+}
+
+/** Throws: there is no filesystem to read from. */
+export async function readDirectory(path: string): Promise<string[] | undefined> {
+    throw noFilesystem(path)
+}
+
+/**
+ * Always `undefined`: packages that ship a wasm binary load it
+ * themselves, relative to their own URL.
+ */
+export async function readPackageFile(_specifier: string): Promise<Uint8Array | undefined> {
+    return undefined
+}
+
+/** Always `undefined`: hostnames can't be resolved here. */
+export async function lookupHost(_host: string): Promise<string[] | undefined> {
+    return undefined
+}
+
+/** Always `undefined`: connections can't be intercepted here. */
+export function createPinnedFetch(
+    _isAllowed: (address: string) => boolean
+): FetchFunction | undefined {
+    return undefined
+}
+
+/** The error for file access on a runtime without a filesystem. */
+function noFilesystem(path: string): Error {
+    return new Error(
+        `Can't read "${path}": this runtime has no filesystem. Pass the data as bytes or a URL instead.`
+    )
+}
@@ -0,0 +1,133 @@
+/**
+ * Node.js access to the filesystem, DNS and connections, for the features
+ * that need more than Web APIs: font files, emoji packs, icon and image
+ * files and private address checks.
+ *
+ * The edge build replaces this module with `runtime.edge.ts`, which has
+ * the same exports, so no `node:` import reaches edge bundles. Keep the
+ * two in sync.
+ *
+ * @internal
+ */
+
+import { readFile as readFileBytes, readdir, stat } from 'node:fs/promises'
+import { lookup } from 'node:dns/promises'
+import { lookup as lookupCallback, type LookupAddress } from 'node:dns'
+import { createRequire } from 'node:module'
+import type { LookupFunction } from 'node:net'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { Agent, RequestInit as UndiciRequestInit } from 'undici'
+import type { FetchFunction } from './types'
+import { toBytes } from './bytes'
+
+/** A filesystem path for a path or `file:` URL. */
+export function toPath(path: string | URL): string {
+    return path instanceof URL || path.startsWith('file:') ? fileURLToPath(path) : path
+}
+
+/** Join path segments with the platform separator. */
+export function joinPath(...segments: string[]): string {
+    return join(...segments)
+}
+
+/** Read a file's bytes. Errors carry Node's `code`, e.g. `"ENOENT"`. */
+export async function readFile(path: string): Promise<Uint8Array> {
+    return toBytes(await readFileBytes(path))
+}
+
+/** Read a UTF-8 text file. Errors carry Node's `code`, e.g. `"ENOENT"`. */
+export async function readTextFile(path: string): Promise<string> {
+    return readFileBytes(path, 'utf8')
+}
+
+/**
+ * The paths of the entries in a directory, sorted, or `undefined` if
+ * `path` is a file.
+ */
+export async function readDirectory(path: string): Promise<string[] | undefined> {
+    if (!(await stat(path)).isDirectory()) return undefined
+    return (await readdir(path)).sort().map((entry) => join(path, entry))
+}
+
+/**
+ * Read a file shipped in an installed package, such as a codec's wasm
+ * binary, or `undefined` if the package isn't installed.
+ */
+export async function readPackageFile(specifier: string): Promise<Uint8Array | undefined> {
+    let path: string
+    try {
+        path = createRequire(import.meta.url).resolve(specifier)
+    } catch {
+        return undefined
+    }
+    return readFile(path)
+}
+
+/**
+ * The addresses a hostname resolves to, or `undefined` where names
+ * can't be resolved.
+ */
+export async function lookupHost(host: string): Promise<string[] | undefined> {
+    const records = await lookup(host, { all: true, verbatim: true })
+    return records.map((record) => record.address)
+}
+
+/**
+ * A `fetch` that only connects to addresses `isAllowed` accepts, checked
+ * against the DNS answer the connection itself uses, so a hostname can't
+ * pass a check with one address and then connect to another (DNS
+ * rebinding). A refused connection rejects with a `TypeError` whose
+ * `cause` has the code `"EADDRBLOCKED"` and the refused `address`.
+ * `undefined` where connections can't be intercepted.
+ */
+export function createPinnedFetch(
+    isAllowed: (address: string) => boolean
+): FetchFunction | undefined {
+    let dispatcher: Agent | undefined
+    return async (url, init) => {
+        // undici's own `fetch`, as Node's built-in one may bundle another undici
+        const undici = await importUndici()
+        dispatcher ??= new undici.Agent({ connect: { lookup: checkedLookup(isAllowed) } })
+        const response = await undici.fetch(url, { ...init, dispatcher } as UndiciRequestInit)
+        return response as unknown as Response
+    }
+}
+
+/** `undici`, imported on the first pinned fetch. */
+let undiciModule: Promise<typeof import('undici')> | undefined
+
+/**
+ * Import `undici` once, so that only `blockPrivateAddresses` loads it. A
+ * failed import is retried on the next call.
+ */
+function importUndici(): Promise<typeof import('undici')> {
+    undiciModule ??= import('undici').catch((error: unknown) => {
+        undiciModule = undefined
+        throw error
+    })
+    return undiciModule
+}
+
+/**
+ * A `net` lookup that fails with `EADDRBLOCKED` when any address the
+ * name resolves to is refused by `isAllowed`.
+ */
+function checkedLookup(isAllowed: (address: string) => boolean): LookupFunction {
+    return (hostname, options, callback) => {
+        lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+            if (error) return callback(error, '')
+            const refused = addresses.find(({ address }) => !isAllowed(address))
+            if (refused) {
+                const message = `"${hostname}" resolved to ${refused.address}, which is not allowed`
+                const blocked = Object.assign(new Error(message), {
+                    code: 'EADDRBLOCKED',
+                    address: refused.address,
+                })
+                return callback(blocked, '')
+            }
+            if (options.all) return callback(null, addresses)
+            callback(null, addresses[0]!.address, addresses[0]!.family)
+        })
+    }
+}
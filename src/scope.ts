@@ -0,0 +1,162 @@
+import type { AbortOptions, RenderPhase } from './types'
+import { RenderAbortError, RenderTimeoutError } from './errors'
+
+/**
+ * Per-render state: cancellation, the running phase, and timings.
+ *
+ * Combines the caller's `signal` with `timeoutMs` into a single signal
+ * that is passed to every fetch, and tracks the running phase so the
+ * abort reason is a {@link RenderAbortError} naming it. Time spent in
+ * each phase is accumulated in `durations` for `onMetrics`. Also used
+ * for standalone font and image fetches.
+ *
+ * @internal
+ */
+export class RenderScope {
+    /** Aborted when the caller's signal fires or the timeout elapses. */
+    readonly signal: AbortSignal | undefined
+    /** Milliseconds spent in each phase. `assets` overlaps `layout`. */
+    readonly durations: Partial<Record<RenderPhase, number>> = {}
+    /** Fonts served from the font cache. */
+    fontCacheHits = 0
+    /** Fonts that had to be fetched. */
+    fontCacheMisses = 0
+    private readonly startedAt = performance.now()
+    private readonly timer: ReturnType<typeof setTimeout> | undefined
+    private readonly onParentAbort: (() => void) | undefined
+    private readonly parent: AbortSignal | undefined
+    private currentPhase: RenderPhase
+    private pendingAssets = 0
+
+    constructor(options: AbortOptions, phase: RenderPhase) {
+        const { signal, timeoutMs } = options
+        this.currentPhase = phase
+        this.parent = signal
+        if (!signal && timeoutMs === undefined) return
+
+        const controller = new AbortController()
+        this.signal = controller.signal
+
+        if (signal) {
+            this.onParentAbort = () => {
+                controller.abort(
+                    new RenderAbortError(this.phase, undefined, {
+                        cause: signal.reason,
+                    })
+                )
+            }
+            if (signal.aborted) {
+                this.onParentAbort()
+            } else {
+                signal.addEventListener('abort', this.onParentAbort, { once: true })
+            }
+        }
+
+        if (timeoutMs !== undefined) {
+            this.timer = setTimeout(() => {
+                controller.abort(new RenderTimeoutError(this.phase, timeoutMs))
+            }, timeoutMs)
+        }
+    }
+
+    /** The phase currently running; `"assets"` while any asset fetch is pending. */
+    get phase(): RenderPhase {
+        return this.pendingAssets > 0 ? 'assets' : this.currentPhase
+    }
+
+    /** Milliseconds since the scope was created. */
+    get elapsed(): number {
+        return performance.now() - this.startedAt
+    }
+
+    /**
+     * Run one phase of the pipeline, adding its duration to `durations`.
+     * Rejects with the abort reason as soon as the scope is aborted, even
+     * if `task` itself can't be cancelled.
+     */
+    async run<T>(phase: RenderPhase, task: () => Promise<T>): Promise<T> {
+        this.currentPhase = phase
+        const start = performance.now()
+        try {
+            return await this.race(task)
+        } finally {
+            this.record(phase, performance.now() - start)
+        }
+    }
+
+    /**
+     * Run an asset fetch made during layout, reporting `"assets"` as the
+     * phase while it is pending.
+     */
+    async asset<T>(task: () => Promise<T>): Promise<T> {
+        this.pendingAssets++
+        try {
+            return await this.run('assets', task)
+        } finally {
+            this.pendingAssets--
+            // Asset fetches happen inside layout; resume reporting it
+            this.currentPhase = 'layout'
+        }
+    }
+
+    /** Mark `phase` as running without timing it. */
+    enter(phase: RenderPhase): void {
+        this.currentPhase = phase
+    }
+
+    /** Add `ms` to the duration of `phase`. */
+    record(phase: RenderPhase, ms: number): void {
+        this.durations[phase] = (this.durations[phase] ?? 0) + ms
+    }
+
+    /** Throw the abort reason if the scope has been aborted. */
+    throwIfAborted(): void {
+        if (this.signal?.aborted) throw this.signal.reason
+    }
+
+    /** Clear the timeout and detach from the caller's signal. */
+    dispose(): void {
+        if (this.timer !== undefined) clearTimeout(this.timer)
+        if (this.onParentAbort) {
+            this.parent?.removeEventListener('abort', this.onParentAbort)
+        }
+    }
+
+    /**
+     * Settle with `task`, or reject with the abort reason if the scope is
+     * aborted first.
+     */
+    race<T>(task: () => Promise<T>): Promise<T> {
+        const signal = this.signal
+        if (!signal) return task()
+        if (signal.aborted) return Promise.reject(signal.reason)
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => reject(signal.reason)
+            signal.addEventListener('abort', onAbort, { once: true })
+            task().then(resolve, (error: unknown) => {
+                // A fetch cancelled by our signal rejects with its own error;
+                // report the scope's reason instead
+                reject(signal.aborted ? signal.reason : error)
+            }).finally(() => signal.removeEventListener('abort', onAbort))
+        })
+    }
+}
+
+/**
+ * Run `task` inside a fresh {@link RenderScope}, disposing it afterwards.
+ *
+ * @internal
+ */
+export async function withRenderScope<T>(
+    options: AbortOptions,
+    phase: RenderPhase,
+    task: (scope: RenderScope) => Promise<T>
+): Promise<T> {
+    const scope = new RenderScope(options, phase)
+    try {
+        return await task(scope)
+    } finally {
+        scope.dispose()
+    }
+}
@@ -1,4 +1,7 @@
 import type { ReactElement } from 'react'
+import type { RenderQueue } from './queue'
+import type { FontRegistry } from './font-registry'
+import type { LRUCache } from './cache'
 
 /**
  * Configuration for a font to use in OG image rendering.
@@ -20,39 +23,547 @@ export interface FontConfig {
 }
 
 /**
- * Options for the {@link ImageResponse} constructor.
+ * A font to add to a {@link FontRegistry}: a file or directory path, a
+ * `file:` URL, the font's bytes, or an object that also overrides the
+ * family, weight or style read from the font itself.
+ */
+export type FontSource =
+    | string
+    | URL
+    | ArrayBuffer
+    | ArrayBufferView
+    | FontFileSource
+
+/**
+ * A {@link FontSource} with explicit metadata. Provide `path` or `data`.
+ */
+export interface FontFileSource {
+    /** File or directory to read. Directories are scanned for `.ttf` and `.otf` files. */
+    path?: string | URL
+    /** The font's bytes. */
+    data?: ArrayBuffer | ArrayBufferView
+    /** Family name. Defaults to the family in the font's `name` table. */
+    name?: string
+    /** Font weight. Defaults to the font's `OS/2` weight class, or `400`. */
+    weight?: FontConfig['weight']
+    /** Font style. Defaults to the font's `OS/2` italic flag, or `"normal"`. */
+    style?: FontConfig['style']
+}
+
+/**
+ * Fallback fonts keyed by satori language code (`"ja-JP"`, `"zh-CN"`,
+ * `"ar-AR"`, `"devanagari"`, …) or bare language (`"ja"`). Values are a
+ * Google Fonts family name or a {@link FontConfig}.
+ */
+export type FallbackFonts = Record<string, string | FontConfig>
+
+/**
+ * Glyph coverage of one text run, from {@link checkFontCoverage}.
+ */
+export interface TextCoverage {
+    /** The text of the run. */
+    text: string
+    /** The font satori picks for the run by family, style and weight. */
+    font: FontConfig | undefined
+    /** Characters in `text` that no font has a glyph for. */
+    missing: string[]
+}
+
+/**
+ * Result of {@link checkFontCoverage}, also passed to `onMissingGlyphs`.
+ */
+export interface FontCoverageReport {
+    /** Characters no font has a glyph for, in order of first appearance. */
+    missing: string[]
+    /** Every text run in the element. */
+    nodes: TextCoverage[]
+}
+
+/**
+ * Font file formats recognised from their leading bytes. Satori reads
+ * `ttf`, `otf` and `woff`, but not `woff2`.
+ */
+export type FontFormat = 'ttf' | 'otf' | 'woff' | 'woff2'
+
+/**
+ * An emoji set. Each is fetched from its own CDN path and names its
+ * SVG files differently.
+ */
+export type EmojiSet = 'twemoji' | 'openmoji' | 'noto' | 'fluent'
+
+/**
+ * Emoji available without the network: a directory (path or `file:`
+ * URL) of SVGs named like the `emoji` set's files, or a map from emoji
+ * to SVG markup or data-URI.
+ */
+export type EmojiPack = string | URL | Record<string, string>
+
+/**
+ * What an {@link AssetLoader} returns for a segment: an image URL or
+ * data-URI to draw in its place, fonts to draw it with, or `undefined`
+ * to leave it to the built-in handling.
+ */
+export type AssetResult = string | FontConfig[] | undefined
+
+/**
+ * The `loadAsset` render hook.
+ */
+export type AssetLoader = (
+    languageCode: string,
+    segment: string
+) => AssetResult | Promise<AssetResult>
+
+/**
+ * Icon sets {@link loadIcon} can load by name.
+ */
+export type BuiltinIconSet = 'lucide' | 'tabler' | 'simple-icons'
+
+/**
+ * Where {@link loadIcon} finds icons: a built-in set, a URL or file
+ * path template containing `{name}`, or a map from name to SVG markup.
+ */
+export type IconSet = BuiltinIconSet | (string & {}) | Record<string, string>
+
+/**
+ * Options for {@link loadIcon}.
  */
-export interface ImageResponseOptions {
+export interface LoadIconOptions extends FetchOptions {
+    /** Replaces `currentColor` in the SVG, since an `<img>` can't inherit it. */
+    color?: string
+}
+
+/**
+ * The phases of the render pipeline, as reported by {@link RenderAbortError}.
+ * `"queue"` is the wait for a {@link RenderQueue} slot.
+ */
+export type RenderPhase = 'queue' | 'fonts' | 'assets' | 'layout' | 'rasterize'
+
+/**
+ * Cancellation options shared by renders and network helpers.
+ */
+export interface AbortOptions {
+    /** Cancels the operation and every fetch it has in flight. */
+    signal?: AbortSignal
+    /** Abort with a {@link RenderTimeoutError} after this many milliseconds. */
+    timeoutMs?: number
+}
+
+/**
+ * A `fetch` implementation, such as a proxy-aware or instrumented one.
+ */
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>
+
+/**
+ * Options for helpers that make network requests.
+ */
+export interface FetchOptions extends AbortOptions {
+    /** Used for every request instead of the global `fetch`. */
+    fetch?: FetchFunction
+}
+
+/**
+ * A weight and style of a font family, as requested from a {@link FontProvider}.
+ */
+export interface FontFaceRequest {
+    weight: NonNullable<FontConfig['weight']>
+    style: NonNullable<FontConfig['style']>
+}
+
+/**
+ * Where fonts named only by family are loaded from. The default is
+ * {@link googleFontsProvider}; implement this to serve fonts from your
+ * own CDN, or a fake in tests.
+ */
+export interface FontProvider {
+    /** Identifies the provider in font cache keys. */
+    readonly name: string
+    /**
+     * Load `faces` of `family`, returning one font per face in the same
+     * order. `text`, when given, is the only text the fonts must cover.
+     */
+    load(
+        family: string,
+        faces: FontFaceRequest[],
+        options: { text?: string; signal?: AbortSignal; fetch: FetchFunction }
+    ): Promise<FontConfig[]>
+}
+
+/**
+ * Options for helpers that load fonts by family name.
+ */
+export interface FontProviderOptions extends FetchOptions {
+    /** Where to load fonts from. @default googleFontsProvider */
+    fontProvider?: FontProvider
+}
+
+/**
+ * Options for {@link createGoogleFontsProvider}.
+ */
+export interface GoogleFontsProviderOptions {
+    /** Base URL of the CSS2 API. @default "https://fonts.googleapis.com" */
+    baseUrl?: string
+}
+
+/**
+ * Options for {@link renderToSvg}, {@link renderToPng} and {@link renderImage}.
+ */
+export interface RenderOptions extends FontProviderOptions {
     /** Image width in pixels. @default 1200 */
     width?: number
     /** Image height in pixels. @default 630 */
     height?: number
     /** Fonts to make available to satori. Auto-loads Inter 700 if omitted. */
     fonts?: FontConfig[]
+    /**
+     * Subset Google Fonts to the text in the element, so only the glyphs
+     * it uses are downloaded. Each distinct character set is cached
+     * separately. @default false
+     */
+    subsetFonts?: boolean
+    /**
+     * Never fetch fonts: every font must have inline `data` or be in the
+     * font registry. @default false
+     */
+    offline?: boolean
+    /** Fonts checked before the network. Defaults to the shared `fontRegistry`. */
+    fontRegistry?: FontRegistry
+    /** Enable satori debug mode (renders layout boxes). @default false */
+    debug?: boolean
+    /** Emoji set, fetched from a CDN. Also names the files of a directory `emojiPack`. */
+    emoji?: EmojiSet
+    /** CDN that emoji SVGs are fetched from. @default "https://cdn.jsdelivr.net" */
+    emojiBaseUrl?: string
+    /**
+     * Local emoji, checked before the CDN. On its own, renders emoji
+     * without the network, named like Twemoji unless `emoji` is set.
+     */
+    emojiPack?: EmojiPack
+    /**
+     * Supplies images or fonts for text, before the built-in emoji and
+     * fallback font handling. Called for every segment satori can't draw
+     * with `fonts` (`languageCode` is `"emoji"` for emoji), and with
+     * `"icon"` and the name for each `:name:` token in the text. Return
+     * `undefined` to fall through.
+     */
+    loadAsset?: AssetLoader
+    /**
+     * Fonts for text the main fonts can't display, such as Japanese or
+     * Devanagari. `true` uses Google's Noto families; a map picks a font
+     * per satori language code. Subset to the text that needs them.
+     */
+    fallbackFonts?: boolean | FallbackFonts
+    /**
+     * Device pixel ratio for rasterized output. Layout stays at
+     * `width` × `height`; the bitmap is `width * scale` pixels wide.
+     * Has no effect on `"svg"` output. @default 1
+     */
+    scale?: number
+    /**
+     * SVG → PNG backend. Pass a built-in name or a custom {@link Rasterizer}.
+     * @default "resvg-wasm"
+     */
+    renderer?: Rasterizer | RasterizerName
+    /** Concurrency limiter for this render. Defaults to the shared `renderQueue`. */
+    queue?: RenderQueue
+    /** Called after a successful render with per-phase timings and output size. */
+    onMetrics?: (metrics: RenderMetrics) => void
+    /**
+     * Called after layout when some characters have no glyph in any font,
+     * including loaded fallback fonts. Emoji are ignored when `emoji` is set.
+     */
+    onMissingGlyphs?: (report: FontCoverageReport) => void
+    /**
+     * Output image format. `"svg"` returns satori's SVG as-is;
+     * `"jpeg"`, `"webp"` and `"avif"` require `sharp`. @default "png"
+     */
+    format?: ImageFormat
+    /** Encoder quality (1–100) for `"jpeg"`, `"webp"` and `"avif"`. @default 80 */
+    quality?: number
+}
+
+/**
+ * Options for the {@link ImageResponse} constructor.
+ */
+export interface ImageResponseOptions extends RenderOptions {
     /** Additional HTTP headers merged with defaults. */
     headers?: HeadersInit
     /** HTTP status code. @default 200 */
     status?: number
-    /** Enable satori debug mode (renders layout boxes). @default false */
-    debug?: boolean
-    /** Emoji rendering source. */
-    emoji?: 'twemoji' | 'openmoji' | 'noto' | 'fluent'
+    /**
+     * Add a `Server-Timing` header with the render's metrics. Only
+     * {@link createImageResponse} can honour this, since `new ImageResponse`
+     * sends its headers before rendering. @default false
+     */
+    serverTiming?: boolean
+    /**
+     * Called when fonts, satori or the rasterizer fail. May return a
+     * fallback element, status or headers; otherwise a plain card is
+     * served with `Cache-Control: no-store`. `new ImageResponse` has
+     * already sent its status and headers, so it only streams the
+     * fallback image, and without `onError` its body errors instead.
+     */
+    onError?: (
+        error: unknown
+    ) => RenderErrorFallback | void | Promise<RenderErrorFallback | void>
+}
+
+/**
+ * The value returned from {@link ImageResponseOptions.onError}.
+ */
+export interface RenderErrorFallback {
+    /** Element to render instead. Defaults to a plain card. */
+    element?: ReactElement
+    /** HTTP status of the fallback response. Defaults to the original `status`. */
+    status?: number
+    /** Headers merged over the fallback defaults. */
+    headers?: HeadersInit
+}
+
+/**
+ * Output formats supported by {@link ImageResponse}.
+ */
+export type ImageFormat = 'png' | 'svg' | 'jpeg' | 'webp' | 'avif'
+
+/**
+ * Instrumentation for one render, passed to {@link RenderOptions.onMetrics}.
+ */
+export interface RenderMetrics {
+    /**
+     * Milliseconds spent in each phase that ran, plus the `total`.
+     * `assets` (emoji fetches) happens during, and overlaps, `layout`.
+     */
+    durations: Partial<Record<RenderPhase, number>> & { total: number }
+    /** Fonts served from the in-memory font cache. */
+    fontCacheHits: number
+    /** Fonts that had to be fetched. Fonts passed with `data` count as neither. */
+    fontCacheMisses: number
+    /** Size of the encoded output in bytes. */
+    bytes: number
+    /** Format of the encoded output. */
+    format: ImageFormat
+}
+
+/**
+ * Names of the built-in {@link Rasterizer} backends.
+ */
+export type RasterizerName = 'resvg-wasm' | 'resvg-js' | 'sharp'
+
+/**
+ * Options passed to {@link Rasterizer.render}.
+ */
+export interface RasterizeOptions {
+    /** Output bitmap width in pixels (layout width × `scale`). */
+    width: number
+    /** Output pixels per layout pixel. */
+    scale: number
+    /** Aborted when the render is cancelled or times out. */
+    signal?: AbortSignal
 }
 
+/**
+ * An SVG → PNG backend.
+ *
+ * @example
+ * ```ts
+ * const rasterizer: Rasterizer = {
+ *   name: 'custom',
+ *   async render(svg, { width }) {
+ *     return myRasterize(svg, width)
+ *   },
+ * }
+ * ```
+ */
+export interface Rasterizer {
+    /** Backend name, used in error messages. */
+    name: string
+    /** Rasterize satori's SVG to PNG bytes. */
+    render(svg: string, options: RasterizeOptions): Promise<Uint8Array>
+}
+
+/**
+ * The output of {@link renderImage}.
+ */
+export interface RenderResult {
+    /** Encoded image bytes. */
+    data: Uint8Array
+    /** The format `data` is encoded in. */
+    format: ImageFormat
+    /** MIME type matching `format` (e.g. `"image/png"`). */
+    contentType: string
+}
+
+/**
+ * An image for {@link fetchImage}: an `http(s)` URL, a `data:` URI, a
+ * `file:` URL, the image's bytes, or a `Blob`. Plain file paths are refused.
+ */
+export type ImageSource = string | URL | ArrayBuffer | ArrayBufferView | Blob
+
 /**
  * Options for {@link fetchImage}.
  */
-export interface FetchImageOptions {
+export interface FetchImageOptions extends FetchOptions {
     /** Desired output width in pixels. Requires `sharp`. */
     width?: number
     /** Desired output height in pixels. Requires `sharp`. */
     height?: number
+    /** How the image fits `width` × `height`. @default "cover" */
+    fit?: ImageFit
+    /** Which part of the image to keep when `fit` crops or pads it. @default "center" */
+    position?: ImagePosition
+    /**
+     * Crop to a `"circle"` (an ellipse when the image isn't square) or to
+     * rounded corners, leaving the rest transparent. Requires `sharp`.
+     */
+    shape?: ImageShape
+    /** Gaussian blur sigma, from 0.3 to 1000. Requires `sharp`. */
+    blur?: number
+    /** Convert to grayscale. Requires `sharp`. */
+    grayscale?: boolean
+    /**
+     * Output format. Transformed images are PNG unless this is `"jpeg"`,
+     * which has no transparency. Requires `sharp` to convert. @default "png"
+     */
+    format?: 'png' | 'jpeg'
+    /** Encoder quality (1–100) for `"jpeg"`. @default 80 */
+    quality?: number
+    /**
+     * Decodes formats the renderer can't (WebP, AVIF, animated GIF) so
+     * they can be re-encoded as PNG. Only needed for formats the optional
+     * `@jsquash/webp` and `@jsquash/avif` codecs and `sharp` don't cover,
+     * or to use another decoder; tried before them.
+     */
+    decoder?: ImageDecoder
+    /**
+     * Largest image to convert to PNG, in pixels (width × height). Checked
+     * against the image's header before it is decoded, so a small file
+     * can't claim a huge canvas. @default 50_000_000
+     */
+    maxPixels?: number
+    /**
+     * Only fetch from these hosts. `"*.example.com"` matches subdomains of
+     * `example.com`. Checked on every redirect.
+     */
+    allowedHosts?: (string | RegExp)[]
+    /** Never fetch from these hosts, matched like `allowedHosts`. */
+    deniedHosts?: (string | RegExp)[]
+    /**
+     * Refuse loopback, private, link-local (including cloud metadata) and
+     * other non-public addresses. Checked on every redirect. On Node,
+     * hostnames are resolved with DNS and, unless `fetch` is given, the
+     * connection is held to the checked addresses. Where hostnames can't
+     * be resolved (edge runtimes), only IP addresses are fetched.
+     * @default false
+     */
+    blockPrivateAddresses?: boolean
+    /** Largest image to accept, in bytes, enforced while streaming. */
+    maxBytes?: number
+    /** MIME types to accept, such as `"image/png"` or `"image/*"`. */
+    allowedTypes?: string[]
+    /** Redirects to follow before failing. @default 20 */
+    maxRedirects?: number
+    /**
+     * Where downloaded images are kept, keyed by URL and options. Defaults
+     * to a shared cache of 100 images for an hour; `false` disables it.
+     * Local files, `data:` URIs and bytes are never cached.
+     */
+    cache?: LRUCache<string, CachedImage> | false
 }
 
+/**
+ * How {@link fetchImage} fits an image to `width` × `height`:
+ * - `"cover"` fills the box, cropping the overflow
+ * - `"contain"` fits inside the box, padding it with transparency
+ * - `"fill"` stretches to the box, ignoring the aspect ratio
+ * - `"inside"` fits inside the box without padding, so one side may be smaller
+ */
+export type ImageFit = 'cover' | 'contain' | 'fill' | 'inside'
+
+/**
+ * The part of an image {@link fetchImage} keeps when cropping: an edge
+ * or corner, `"attention"` (the most salient region) or `"entropy"` (the
+ * most detailed region), or a {@link FocalPoint}.
+ */
+export type ImagePosition =
+    | 'center'
+    | 'top'
+    | 'bottom'
+    | 'left'
+    | 'right'
+    | 'top left'
+    | 'top right'
+    | 'bottom left'
+    | 'bottom right'
+    | 'attention'
+    | 'entropy'
+    | FocalPoint
+
+/**
+ * A point to keep in view, as fractions of the image's width and height:
+ * `{ x: 0.5, y: 0.3 }` is centered, a third of the way down.
+ */
+export interface FocalPoint {
+    x: number
+    y: number
+}
+
+/**
+ * A crop shape for {@link fetchImage}: `"circle"`, or corners rounded to
+ * `radius` pixels.
+ */
+export type ImageShape = 'circle' | { radius: number }
+
+/**
+ * Decode an image to RGBA pixels, or return `undefined` to leave it to
+ * the wasm codecs, `sharp` or the built-in GIF decoder.
+ */
+export type ImageDecoder = (
+    bytes: Uint8Array,
+    mimeType: string
+) => DecodedImage | undefined | Promise<DecodedImage | undefined>
+
+/**
+ * Pixels returned by an {@link ImageDecoder}: `width` × `height` RGBA,
+ * 4 bytes per pixel, like `ImageData`.
+ */
+export interface DecodedImage {
+    width: number
+    height: number
+    data: Uint8Array | Uint8ClampedArray
+}
+
+/**
+ * An image downloaded by {@link fetchImage}, as kept in its cache. The
+ * size is missing when it can't be read from the image's header.
+ */
+export interface CachedImage {
+    /** The image as a base64 data-URI. */
+    src: string
+    /** MIME type of the image in `src`. */
+    mimeType: string
+    /** Width in pixels. */
+    width?: number
+    /** Height in pixels. */
+    height?: number
+}
+
+/**
+ * Result of {@link fetchImageInfo}: an image and its intrinsic size,
+ * ready for `<img src={src} width={width} height={height} />`.
+ */
+export interface ImageInfo extends CachedImage {
+    width: number
+    height: number
+}
+
+/**
+ * Which {@link FetchImageOptions} rule an {@link ImageBlockedError} broke.
+ */
+export type ImageBlockReason = 'protocol' | 'host' | 'private-address'
+
 /**
  * Options for loading a Google Font via {@link loadGoogleFont}.
  */
-export interface LoadGoogleFontOptions {
+export interface LoadGoogleFontOptions extends FontProviderOptions {
     /** Font weight. @default 400 */
     weight?: FontConfig['weight']
     /** Font style. @default "normal" */
@@ -61,6 +572,51 @@ export interface LoadGoogleFontOptions {
     text?: string
 }
 
+/**
+ * Options for {@link loadGoogleFontFamily}.
+ */
+export interface LoadGoogleFontFamilyOptions extends FontProviderOptions {
+    /** Font weights to load. @default [400] */
+    weights?: NonNullable<FontConfig['weight']>[]
+    /** Font styles to load. @default ["normal"] */
+    styles?: NonNullable<FontConfig['style']>[]
+    /** Specific text to subset the fonts for (reduces download size). */
+    text?: string
+}
+
+/**
+ * A source for the resvg wasm binary: a compiled `WebAssembly.Module`,
+ * a URL to fetch, a `Response`, or the raw bytes.
+ */
+export type WasmSource =
+    | WebAssembly.Module
+    | URL
+    | string
+    | Response
+    | Promise<Response>
+    | ArrayBuffer
+    | Uint8Array
+
+/**
+ * Options for {@link initOg}.
+ */
+export interface InitOgOptions {
+    /** The resvg wasm binary. Defaults to the copy inlined in this package. */
+    wasm?: WasmSource
+}
+
+/**
+ * Limits for a {@link RenderQueue}.
+ */
+export interface RenderQueueOptions {
+    /** Renders allowed to run at once. @default Infinity */
+    maxConcurrentRenders?: number
+    /** Renders allowed to wait for a slot before new ones are rejected. @default Infinity */
+    maxQueue?: number
+    /** `Retry-After` seconds suggested when the queue is full. @default 5 */
+    retryAfter?: number
+}
+
 /**
  * Options for the LRU cache.
  */
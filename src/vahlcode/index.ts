@@ -1,4 +1,4 @@
-import { ImageResponse } from '../image-response'
+import { createImageResponse } from '../image-response'
 import type { CreateOgImageOptions, OgRenderFunction } from '../types'
 
 /**
@@ -6,7 +6,8 @@ import type { CreateOgImageOptions, OgRenderFunction } from '../types'
  *
  * This function returns a route configuration object that should be passed
  * to `createFileRoute`. It automatically handles font loading, rendering,
- * and caching headers.
+ * and caching headers. The image is fully rendered before the response is
+ * sent, so a failed render serves a non-cacheable fallback (see `onError`).
  *
  * @param render - An async function that receives the request context and returns a JSX element
  * @param options - Image dimensions, fonts, and caching configuration
@@ -52,7 +53,7 @@ export function createOgImage(
             handlers: {
                 GET: async ({ request }: { request: Request }) => {
                     const element = await render({ request })
-                    return new ImageResponse(element, {
+                    return createImageResponse(element, {
                         ...imageOptions,
                         headers: {
                             ...headers,
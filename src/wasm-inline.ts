@@ -0,0 +1,19 @@
+/**
+ * The resvg wasm binary, inlined for runtimes that can't load it from a
+ * file or URL. Published as `@vahlcode/og/wasm-inline` so the ~3 MB copy
+ * only ends up in bundles that import it.
+ *
+ * @example
+ * ```ts
+ * import { initOg } from '@vahlcode/og'
+ * import { resvgWasm } from '@vahlcode/og/wasm-inline'
+ *
+ * await initOg({ wasm: resvgWasm })
+ * ```
+ */
+
+import { resvgWasm as inlined } from './resvg-wasm'
+import { base64ToBytes } from './bytes'
+
+/** The decoded resvg wasm binary, ready to pass to `initOg`. */
+export const resvgWasm: Uint8Array = base64ToBytes(inlined)
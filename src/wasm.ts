@@ -0,0 +1,62 @@
+import type { InitOgOptions } from './types'
+import { base64ToBytes } from './bytes'
+
+/** Shared initialization promise — resvg-wasm may only be initialized once. */
+let wasmInit: Promise<void> | undefined
+
+/**
+ * Load the resvg wasm binary. Falls back to the inlined base64 copy, which
+ * is only imported when no other source is provided.
+ */
+async function initialize(options: InitOgOptions): Promise<void> {
+    const { initWasm } = await import('@resvg/resvg-wasm')
+
+    if (options.wasm !== undefined) {
+        await initWasm(options.wasm)
+        return
+    }
+
+    const { resvgWasm } = await import('./resvg-wasm')
+    await initWasm(base64ToBytes(resvgWasm))
+}
+
+/**
+ * Initialize the resvg-wasm renderer.
+ *
+ * Calling this is optional: the first render initializes it lazily from
+ * the inlined wasm binary. Call it at startup to supply the binary
+ * yourself (keeping the inlined copy out of your bundle) or to surface
+ * init failures early. Only the first call's `wasm` is used; later calls
+ * share the same promise. A failed init is not cached, so it can be
+ * retried.
+ *
+ * @param options - Where to load the wasm binary from
+ *
+ * @example
+ * ```ts
+ * // Cloudflare Workers: import the binary as a WebAssembly.Module
+ * import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm'
+ * import { initOg } from '@vahlcode/og'
+ *
+ * await initOg({ wasm: resvgWasm })
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Anywhere else: the copy inlined in this package, loaded up front
+ * import { resvgWasm } from '@vahlcode/og/wasm-inline'
+ * import { initOg } from '@vahlcode/og'
+ *
+ * await initOg({ wasm: resvgWasm })
+ * ```
+ */
+export function initOg(options: InitOgOptions = {}): Promise<void> {
+    wasmInit ??= initialize(options).catch((error: unknown) => {
+        wasmInit = undefined
+        const message = error instanceof Error ? error.message : String(error)
+        throw new Error(`Failed to initialize resvg-wasm: ${message}`, {
+            cause: error,
+        })
+    })
+    return wasmInit
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest'
+import React from 'react'
+import { checkFontCoverage } from '../src/coverage'
+import { readGlyphCoverage } from '../src/font-format'
+import { RenderTimeoutError } from '../src/errors'
+import type { FontConfig, FontProvider } from '../src/types'
+
+/**
+ * Wrap a `cmap` subtable in a minimal TrueType font.
+ */
+function makeFont(platform: number, encoding: number, subtable: Uint8Array): ArrayBuffer {
+    const cmap = new Uint8Array(12 + subtable.length)
+    const cmapView = new DataView(cmap.buffer)
+    cmapView.setUint16(2, 1) // numTables
+    cmapView.setUint16(4, platform)
+    cmapView.setUint16(6, encoding)
+    cmapView.setUint32(8, 12)
+    cmap.set(subtable, 12)
+
+    const font = new Uint8Array(28 + cmap.length)
+    const view = new DataView(font.buffer)
+    view.setUint32(0, 0x00010000)
+    view.setUint16(4, 1)
+    font.set([0x63, 0x6d, 0x61, 0x70], 12) // 'cmap'
+    view.setUint32(20, 28)
+    view.setUint32(24, cmap.length)
+    font.set(cmap, 28)
+    return font.buffer
+}
+
+/**
+ * A font whose format 4 `cmap` maps each character in `ranges` to a glyph.
+ */
+function bmpFont(...ranges: [string, string][]): ArrayBuffer {
+    const segments = [
+        // Segments must be sorted by end code
+        ...ranges
+            .map(([from, to]) => [from.charCodeAt(0), to.charCodeAt(0)])
+            .sort((a, b) => a[1]! - b[1]!),
+        [0xffff, 0xffff],
+    ]
+    const count = segments.length
+    const table = new Uint8Array(16 + count * 8)
+    const view = new DataView(table.buffer)
+    view.setUint16(0, 4)
+    view.setUint16(6, count * 2)
+    let glyph = 1
+    segments.forEach(([start, end], i) => {
+        view.setUint16(14 + i * 2, end!)
+        view.setUint16(16 + count * 2 + i * 2, start!)
+        // The final 0xFFFF segment maps to glyph 0
+        const delta = end === 0xffff ? 1 : glyph - start!
+        view.setUint16(16 + count * 4 + i * 2, delta & 0xffff)
+        glyph += end! - start! + 1
+    })
+    return makeFont(3, 1, table)
+}
+
+/**
+ * A font whose format 12 `cmap` covers the code points `from`..`to`.
+ */
+function fullFont(from: number, to: number): ArrayBuffer {
+    const table = new Uint8Array(28)
+    const view = new DataView(table.buffer)
+    view.setUint16(0, 12)
+    view.setUint32(12, 1)
+    view.setUint32(16, from)
+    view.setUint32(20, to)
+    view.setUint32(24, 1)
+    return makeFont(3, 10, table)
+}
+
+describe('readGlyphCoverage', () => {
+    it('reads format 4 subtables', () => {
+        const has = readGlyphCoverage(bmpFont(['A', 'Z'], ['0', '9']))!
+
+        expect(has('Q'.codePointAt(0)!)).toBe(true)
+        expect(has('5'.codePointAt(0)!)).toBe(true)
+        expect(has('a'.codePointAt(0)!)).toBe(false)
+        expect(has(0x1f600)).toBe(false)
+    })
+
+    it('reads format 12 subtables beyond the BMP', () => {
+        const has = readGlyphCoverage(fullFont(0x1f600, 0x1f64f))!
+
+        expect(has(0x1f60a)).toBe(true)
+        expect(has(0x1f680)).toBe(false)
+    })
+
+    it('returns undefined for WOFF data and fonts without a cmap', () => {
+        expect(readGlyphCoverage(new TextEncoder().encode('wOFF'))).toBeUndefined()
+        expect(readGlyphCoverage(new Uint8Array([0, 1, 0, 0, 0, 0]))).toBeUndefined()
+    })
+})
+
+describe('checkFontCoverage', () => {
+    const latin: FontConfig = { name: 'Latin', data: bmpFont(['A', 'z']), weight: 400 }
+    const latinBold: FontConfig = { name: 'Latin', data: bmpFont(['A', 'z']), weight: 700 }
+    const greek: FontConfig = { name: 'Greek', data: bmpFont(['α', 'ω']), weight: 400 }
+
+    it('lists characters missing from every font', async () => {
+        const element = React.createElement(
+            'div',
+            null,
+            React.createElement('h1', null, 'Hello αβ'),
+            React.createElement('p', null, 'Привет, Hello')
+        )
+
+        const report = await checkFontCoverage(element, [latin, greek])
+
+        expect(report.missing).toEqual(['П', 'р', 'и', 'в', 'е', 'т', ','])
+        expect(report.nodes.map((node) => node.missing)).toEqual([
+            [],
+            ['П', 'р', 'и', 'в', 'е', 'т', ','],
+        ])
+    })
+
+    it('matches each text run to a font by inherited family and weight', async () => {
+        const element = React.createElement(
+            'div',
+            { style: { fontFamily: '"Greek", sans-serif' } },
+            React.createElement('span', null, 'αβ'),
+            React.createElement(
+                'b',
+                { style: { fontFamily: 'Latin', fontWeight: 'bold' } },
+                React.createElement('span', null, 'Bold')
+            ),
+            React.createElement('i', { style: { fontFamily: 'Unknown', fontWeight: 600 } }, 'x')
+        )
+
+        const { nodes } = await checkFontCoverage(element, [latin, latinBold, greek])
+
+        expect(nodes.map((node) => [node.text, node.font])).toEqual([
+            ['αβ', greek],
+            ['Bold', latinBold],
+            // Unknown families use the first font's family
+            ['x', latinBold],
+        ])
+    })
+
+    it('ignores whitespace and joiners', async () => {
+        const element = React.createElement('div', null, 'Hi\n\tthere‍️')
+
+        const report = await checkFontCoverage(element, [latin])
+
+        expect(report.missing).toEqual([])
+    })
+
+    it('assumes fonts it cannot inspect cover everything', async () => {
+        const woff: FontConfig = { name: 'Woff', data: new TextEncoder().encode('wOFF').buffer }
+
+        const report = await checkFontCoverage(
+            React.createElement('div', null, 'Привет'),
+            [latin, woff]
+        )
+
+        expect(report.missing).toEqual([])
+    })
+
+    it('loads fonts without data from the given font provider', async () => {
+        const fontProvider: FontProvider = {
+            name: 'coverage-test',
+            load: vi.fn(async (family, faces) =>
+                faces.map((face) => ({ name: family, data: bmpFont(['A', 'z']), ...face }))
+            ),
+        }
+
+        const report = await checkFontCoverage(
+            React.createElement('div', null, 'Hello, world'),
+            [{ name: 'Provided', weight: 400 }],
+            { fontProvider }
+        )
+
+        expect(fontProvider.load).toHaveBeenCalledOnce()
+        expect(report.missing).toEqual([','])
+    })
+
+    it('refuses to fetch fonts in offline mode', async () => {
+        await expect(
+            checkFontCoverage(React.createElement('div', null, 'Hi'), [{ name: 'Remote' }], {
+                offline: true,
+            })
+        ).rejects.toThrow('offline mode forbids fetching it')
+    })
+
+    it('gives up on loading fonts after timeoutMs', async () => {
+        const fontProvider: FontProvider = {
+            name: 'coverage-test-slow',
+            load: (_family, _faces, { signal }) =>
+                new Promise((_, reject) => {
+                    signal?.addEventListener('abort', () => reject(signal.reason))
+                }),
+        }
+
+        await expect(
+            checkFontCoverage(React.createElement('div', null, 'Hi'), [{ name: 'Slow' }], {
+                fontProvider,
+                timeoutMs: 10,
+            })
+        ).rejects.toBeInstanceOf(RenderTimeoutError)
+    })
+})
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import React from 'react'
+import {
+    bytesToBase64,
+    base64ToBytes,
+    stringToBase64,
+    toBytes,
+    toDataUri,
+} from '../src/bytes'
+import { fetchImage } from '../src/image'
+import { initOg } from '../src/wasm'
+import { renderToSvg } from '../src/render'
+import satori from 'satori'
+import { initWasm } from '@resvg/resvg-wasm'
+
+// Runs the package without Node's Buffer, as on Cloudflare Workers or Deno,
+// and with the runtime module the edge build swaps in
+vi.mock('../src/runtime', () => import('../src/runtime.edge'))
+
+vi.mock('satori', () => ({
+    default: vi.fn().mockResolvedValue('<svg>mock</svg>'),
+}))
+
+vi.mock('@resvg/resvg-wasm', () => ({
+    initWasm: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('../src/resvg-wasm', () => ({
+    resvgWasm: 'AGFzbQEAAAA=',
+}))
+
+const NodeBuffer = globalThis.Buffer
+
+/**
+ * A minimal fetch response. Node's own `Response` and `Headers` rely on
+ * `Buffer`, so they can't be used while it is removed.
+ */
+function fakeResponse(
+    body: Uint8Array | string,
+    headers: Record<string, string> = {}
+) {
+    const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body
+    return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+        arrayBuffer: async () => bytes.slice().buffer,
+        text: async () => new TextDecoder().decode(bytes),
+    }
+}
+
+describe('without Buffer', () => {
+    beforeAll(() => {
+        vi.stubGlobal('Buffer', undefined)
+    })
+
+    afterAll(() => {
+        vi.unstubAllGlobals()
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+        vi.stubGlobal('Buffer', undefined)
+    })
+
+    describe('bytes', () => {
+        it('round-trips bytes through base64', () => {
+            const bytes = new Uint8Array([0, 1, 127, 128, 254, 255])
+            const base64 = bytesToBase64(bytes)
+
+            expect(base64).toBe(NodeBuffer.from(bytes).toString('base64'))
+            expect(Array.from(base64ToBytes(base64))).toEqual(Array.from(bytes))
+        })
+
+        it('encodes buffers larger than one chunk', () => {
+            const bytes = new Uint8Array(200_000)
+            for (let i = 0; i < bytes.length; i++) bytes[i] = i % 256
+
+            const base64 = bytesToBase64(bytes)
+
+            expect(base64).toBe(NodeBuffer.from(bytes).toString('base64'))
+            expect(NodeBuffer.compare(base64ToBytes(base64), bytes)).toBe(0)
+        })
+
+        it('accepts ArrayBuffers and other views', () => {
+            const buffer = new Uint16Array([0x0201, 0x0403]).buffer
+
+            expect(Array.from(toBytes(buffer))).toEqual([1, 2, 3, 4])
+            expect(Array.from(toBytes(new DataView(buffer, 2)))).toEqual([3, 4])
+        })
+
+        it('base64-encodes strings as UTF-8', () => {
+            expect(stringToBase64('<text>héllo 👋</text>')).toBe(
+                NodeBuffer.from('<text>héllo 👋</text>', 'utf8').toString('base64')
+            )
+        })
+
+        it('builds data URIs', () => {
+            expect(toDataUri(new Uint8Array([1, 2, 3]), 'image/png')).toBe(
+                'data:image/png;base64,AQID'
+            )
+        })
+    })
+
+    describe('fetchImage', () => {
+        it('returns a base64 data-URI', async () => {
+            vi.stubGlobal(
+                'fetch',
+                vi.fn().mockResolvedValue(
+                    fakeResponse(new Uint8Array([137, 80, 78, 71]), {
+                        'content-type': 'image/png',
+                    })
+                )
+            )
+
+            await expect(fetchImage('https://example.com/logo.png')).resolves.toBe(
+                'data:image/png;base64,iVBORw=='
+            )
+        })
+    })
+
+    describe('runtime', () => {
+        it('explains that files need a filesystem', async () => {
+            await expect(fetchImage('file:///srv/logo.png')).rejects.toThrow(
+                `Can't read "/srv/logo.png": this runtime has no filesystem`
+            )
+            await expect(fetchImage(new URL('file:///srv/logo%20dark.png'))).rejects.toThrow(
+                `Can't read "/srv/logo dark.png"`
+            )
+        })
+
+        it('refuses hostnames it cannot resolve when blocking private addresses', async () => {
+            const fetch = vi.fn().mockResolvedValue(
+                fakeResponse(new Uint8Array([137, 80, 78, 71]), { 'content-type': 'image/png' })
+            )
+            const options = { blockPrivateAddresses: true, fetch }
+
+            await expect(fetchImage('https://example.com/a.png', options)).rejects.toMatchObject({
+                name: 'ImageBlockedError',
+                reason: 'private-address',
+            })
+            expect(fetch).not.toHaveBeenCalled()
+
+            await fetchImage('https://93.184.216.34/a.png', options)
+            expect(fetch).toHaveBeenCalledTimes(1)
+        })
+    })
+
+    describe('initOg', () => {
+        it('decodes the inlined wasm binary', async () => {
+            await initOg()
+
+            const bytes = vi.mocked(initWasm).mock.calls[0][0] as Uint8Array
+            expect(Array.from(bytes)).toEqual([0, 97, 115, 109, 1, 0, 0, 0])
+        })
+    })
+
+    describe('wasm-inline', () => {
+        it('decodes the inlined wasm binary', async () => {
+            const { resvgWasm } = await import('../src/wasm-inline')
+
+            expect(Array.from(resvgWasm)).toEqual([0, 97, 115, 109, 1, 0, 0, 0])
+        })
+    })
+
+    describe('emoji loading', () => {
+        it('encodes emoji SVGs with non-Latin-1 content', async () => {
+            const emojiSvg = '<svg><title>grinning face 😀</title></svg>'
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(fakeResponse(emojiSvg)))
+
+            await renderToSvg(React.createElement('div', null, '😀'), {
+                fonts: [{ name: 'Inter', data: new Uint8Array([0, 1, 0, 0]).buffer }],
+                emoji: 'twemoji',
+            })
+            const { loadAdditionalAsset } = vi.mocked(satori).mock.calls[0][1] as any
+
+            await expect(loadAdditionalAsset('emoji', '😀')).resolves.toBe(
+                `data:image/svg+xml;base64,${NodeBuffer.from(emojiSvg).toString('base64')}`
+            )
+        })
+    })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest'
+import React from 'react'
+import { collectText, replaceIconTokens } from '../src/element'
+
+describe('collectText', () => {
+    it('collects strings and numbers from nested elements', () => {
+        const element = React.createElement(
+            'div',
+            null,
+            React.createElement('h1', null, 'Hello'),
+            ' ',
+            React.createElement('span', null, ['world ', 42])
+        )
+
+        expect(collectText(element)).toBe('Hello world 42')
+    })
+
+    it('skips booleans, null and attribute values', () => {
+        const element = React.createElement(
+            'div',
+            { title: 'ignored' },
+            false,
+            null,
+            React.createElement('img', { src: 'x.png', alt: 'ignored' }),
+            'kept'
+        )
+
+        expect(collectText(element)).toBe('kept')
+    })
+
+    it('renders function components and fragments', () => {
+        const Title = ({ text }: { text: string }) =>
+            React.createElement('h1', null, text.toUpperCase())
+        const element = React.createElement(
+            React.Fragment,
+            null,
+            React.createElement(Title, { text: 'og' }),
+            'image'
+        )
+
+        expect(collectText(element)).toBe('OGimage')
+    })
+})
+
+describe('replaceIconTokens', () => {
+    const load = async (name: string) =>
+        name === 'rocket' ? 'data:image/svg+xml;base64,AAAA' : undefined
+
+    it('replaces known tokens with images in a flex row', async () => {
+        const element = React.createElement('div', null, 'Deploy :rocket: now :nope:')
+
+        const result = (await replaceIconTokens(element, load)) as React.ReactElement<any>
+
+        expect(result.props.style).toEqual({ display: 'flex' })
+        const row = result.props.children
+        expect(row.type).toBe('span')
+        expect(row.props.children).toEqual([
+            'Deploy ',
+            expect.objectContaining({
+                type: 'img',
+                props: expect.objectContaining({ src: 'data:image/svg+xml;base64,AAAA' }),
+            }),
+            ' now :nope:',
+        ])
+    })
+
+    it('loads each name once and expands function components', async () => {
+        const loadMock = vi.fn(load)
+        const Badge = () => React.createElement('span', null, ':rocket:')
+        const element = React.createElement(
+            'div',
+            { style: { display: 'flex', flexDirection: 'column' } },
+            React.createElement(Badge),
+            React.createElement('p', null, ':rocket: again')
+        )
+
+        const result = (await replaceIconTokens(element, loadMock)) as React.ReactElement<any>
+
+        expect(loadMock).toHaveBeenCalledTimes(1)
+        expect(result.props.style).toEqual({ display: 'flex', flexDirection: 'column' })
+        expect(collectText(result)).toBe(' again')
+    })
+
+    it('returns the tree unchanged without tokens it can load', async () => {
+        const element = React.createElement('div', null, 'At 10:30:00 :nope:')
+
+        await expect(replaceIconTokens(element, load)).resolves.toBe(element)
+    })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, writeFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { emojiFilename, loadEmoji, clearEmojiCache } from '../src/emoji'
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg"/>'
+const SVG_DATA_URI = `data:image/svg+xml;base64,${Buffer.from(SVG).toString('base64')}`
+
+describe('emojiFilename', () => {
+    it('names single code point emoji', () => {
+        expect(emojiFilename('twemoji', '👋')).toBe('1f44b.svg')
+        expect(emojiFilename('openmoji', '👋')).toBe('1F44B.svg')
+        expect(emojiFilename('noto', '👋')).toBe('emoji_u1f44b.svg')
+        expect(emojiFilename('fluent', '👋')).toBe('1f44b_color.svg')
+    })
+
+    it('names skin tones, flags and keycaps by every code point', () => {
+        expect(emojiFilename('twemoji', '👋🏽')).toBe('1f44b-1f3fd.svg')
+        expect(emojiFilename('twemoji', '🇯🇵')).toBe('1f1ef-1f1f5.svg')
+        expect(emojiFilename('twemoji', '#️⃣')).toBe('23-20e3.svg')
+        expect(emojiFilename('noto', '#️⃣')).toBe('emoji_u0023_20e3.svg')
+        expect(emojiFilename('noto', '🇯🇵')).toBe('emoji_u1f1ef_1f1f5.svg')
+    })
+
+    it('keeps the presentation selector only in ZWJ sequences', () => {
+        expect(emojiFilename('twemoji', '❤️')).toBe('2764.svg')
+        expect(emojiFilename('twemoji', '👩🏽‍💻')).toBe('1f469-1f3fd-200d-1f4bb.svg')
+        expect(emojiFilename('openmoji', '🏳️‍🌈')).toBe('1F3F3-FE0F-200D-1F308.svg')
+        expect(emojiFilename('noto', '🏳️‍🌈')).toBe('emoji_u1f3f3_200d_1f308.svg')
+    })
+})
+
+describe('loadEmoji', () => {
+    beforeEach(() => {
+        clearEmojiCache()
+        vi.restoreAllMocks()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('fetches the whole sequence from the set’s CDN path', async () => {
+        const fetch = vi.fn().mockResolvedValue(new Response(SVG, { status: 200 }))
+
+        await expect(loadEmoji('👩🏽‍💻', { emoji: 'fluent', fetch })).resolves.toBe(SVG_DATA_URI)
+        expect(fetch.mock.calls[0][0]).toBe(
+            'https://cdn.jsdelivr.net/gh/shuding/fluentui-emoji-unicode/assets/1f469-1f3fd-200d-1f4bb_color.svg'
+        )
+    })
+
+    it('caches fetched emoji', async () => {
+        const fetch = vi.fn().mockImplementation(async () => new Response(SVG, { status: 200 }))
+
+        await loadEmoji('👋', { emoji: 'twemoji', fetch })
+        await loadEmoji('👋', { emoji: 'twemoji', fetch })
+
+        expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not cache emoji the CDN lacks', async () => {
+        const fetch = vi.fn().mockImplementation(async () => new Response('', { status: 404 }))
+
+        await expect(loadEmoji('👋', { emoji: 'twemoji', fetch })).resolves.toBeUndefined()
+        await loadEmoji('👋', { emoji: 'twemoji', fetch })
+
+        expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('serves emoji from an in-memory pack without the network', async () => {
+        const fetch = vi.fn()
+        const emojiPack = { '❤': SVG, '👋': 'data:image/png;base64,AAAA' }
+
+        await expect(loadEmoji('❤️', { emojiPack, fetch })).resolves.toBe(SVG_DATA_URI)
+        await expect(loadEmoji('👋', { emojiPack, fetch })).resolves.toBe(
+            'data:image/png;base64,AAAA'
+        )
+        await expect(loadEmoji('🎉', { emojiPack, fetch })).resolves.toBeUndefined()
+        expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('falls back to the CDN for emoji missing from the pack when emoji is set', async () => {
+        const fetch = vi.fn().mockResolvedValue(new Response(SVG, { status: 200 }))
+
+        await loadEmoji('🎉', { emoji: 'twemoji', emojiPack: {}, fetch })
+
+        expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    describe('directory packs', () => {
+        let dir: string
+
+        beforeEach(async () => {
+            dir = await mkdtemp(join(tmpdir(), 'og-emoji-'))
+            await writeFile(join(dir, '1f44b-1f3fd.svg'), SVG)
+        })
+
+        afterEach(async () => {
+            await rm(dir, { recursive: true, force: true })
+        })
+
+        it('reads emoji named like the emoji set', async () => {
+            const fetch = vi.fn()
+
+            await expect(loadEmoji('👋🏽', { emojiPack: dir, fetch })).resolves.toBe(SVG_DATA_URI)
+            await expect(
+                loadEmoji('👋🏽', { emojiPack: pathToFileURL(dir), fetch })
+            ).resolves.toBe(SVG_DATA_URI)
+            await expect(loadEmoji('👋', { emojiPack: dir, fetch })).resolves.toBeUndefined()
+            expect(fetch).not.toHaveBeenCalled()
+        })
+    })
+})
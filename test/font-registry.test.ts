@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { FontRegistry, resolveLocalFont } from '../src/font-registry'
+import { resolveFont } from '../src/font'
+import { readFontMetadata } from '../src/font-format'
+
+/**
+ * Build a minimal TrueType font with just `OS/2` and `name` tables.
+ */
+function makeFont(family: string, weight: number, italic = false): Uint8Array {
+    const os2 = new Uint8Array(64)
+    const os2View = new DataView(os2.buffer)
+    os2View.setUint16(4, weight)
+    os2View.setUint16(62, italic ? 1 : 0)
+
+    const familyBytes = new Uint8Array(family.length * 2)
+    const familyView = new DataView(familyBytes.buffer)
+    for (let i = 0; i < family.length; i++) {
+        familyView.setUint16(i * 2, family.charCodeAt(i))
+    }
+    const name = new Uint8Array(18 + familyBytes.length)
+    const nameView = new DataView(name.buffer)
+    nameView.setUint16(2, 1) // count
+    nameView.setUint16(4, 18) // string storage offset
+    nameView.setUint16(6, 3) // Windows
+    nameView.setUint16(8, 1) // Unicode BMP
+    nameView.setUint16(10, 0x409) // en-US
+    nameView.setUint16(12, 1) // font family
+    nameView.setUint16(14, familyBytes.length)
+    name.set(familyBytes, 18)
+
+    const tables: [string, Uint8Array][] = [['OS/2', os2], ['name', name]]
+    const font = new Uint8Array(12 + tables.length * 16 + os2.length + name.length)
+    const view = new DataView(font.buffer)
+    view.setUint32(0, 0x00010000)
+    view.setUint16(4, tables.length)
+    let offset = 12 + tables.length * 16
+    tables.forEach(([tag, data], i) => {
+        const record = 12 + i * 16
+        for (let j = 0; j < 4; j++) font[record + j] = tag.charCodeAt(j)
+        view.setUint32(record + 8, offset)
+        view.setUint32(record + 12, data.length)
+        font.set(data, offset)
+        offset += data.length
+    })
+    return font
+}
+
+describe('readFontMetadata', () => {
+    it('reads family, weight and style from the font tables', () => {
+        expect(readFontMetadata(makeFont('Inter', 700, true))).toEqual({
+            family: 'Inter',
+            weight: 700,
+            style: 'italic',
+        })
+    })
+
+    it('rounds weight classes to the nearest hundred', () => {
+        expect(readFontMetadata(makeFont('Inter', 350)).weight).toBe(400)
+    })
+
+    it('returns nothing for WOFF data', () => {
+        expect(readFontMetadata(new TextEncoder().encode('wOFF'))).toEqual({})
+    })
+})
+
+describe('FontRegistry', () => {
+    let registry: FontRegistry
+    let dir: string
+
+    beforeEach(async () => {
+        registry = new FontRegistry()
+        dir = await mkdtemp(join(tmpdir(), 'og-fonts-'))
+    })
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true })
+        vi.restoreAllMocks()
+    })
+
+    it('indexes font bytes by the family, weight and style they declare', async () => {
+        await registry.register(makeFont('Inter', 700), makeFont('Inter', 400, true))
+
+        expect(registry.find({ name: 'inter', weight: 700 })?.style).toBe('normal')
+        expect(registry.find({ name: 'Inter', weight: 400, style: 'italic' })).toBeDefined()
+        expect(registry.find({ name: 'Inter', weight: 400 })).toBeUndefined()
+        expect(registry.size).toBe(2)
+    })
+
+    it('lets explicit metadata override the font tables', async () => {
+        const [font] = await registry.register({
+            data: makeFont('Inter', 400),
+            name: 'Brand',
+            weight: 800,
+        })
+
+        expect(font).toMatchObject({ name: 'Brand', weight: 800, style: 'normal' })
+        expect(registry.find({ name: 'Brand', weight: 800 })).toBe(font)
+    })
+
+    it('reads font files and scans directories for .ttf and .otf files', async () => {
+        await mkdir(join(dir, 'nested'))
+        await writeFile(join(dir, 'Inter-Bold.ttf'), makeFont('Inter', 700))
+        await writeFile(join(dir, 'nested', 'Mono.otf'), makeFont('Mono', 400))
+        await writeFile(join(dir, 'README.txt'), 'not a font')
+        const single = join(tmpdir(), `og-font-${process.pid}.ttf`)
+        await writeFile(single, makeFont('Serif', 400))
+
+        try {
+            const fonts = await registry.register(dir, pathToFileURL(single))
+            expect(fonts.map((f) => f.name)).toEqual(['Inter', 'Mono', 'Serif'])
+            expect(registry.find({ name: 'Mono' })?.data).toBeInstanceOf(ArrayBuffer)
+        } finally {
+            await rm(single, { force: true })
+        }
+    })
+
+    it('rejects files that are not fonts', async () => {
+        const file = join(dir, 'fake.ttf')
+        await writeFile(file, '<html></html>')
+
+        await expect(registry.register(file)).rejects.toThrow(
+            `Font file "${file}" is not a TTF, OTF or WOFF font.`
+        )
+    })
+
+    it('requires a name when it cannot be read from the font', async () => {
+        const woff = new TextEncoder().encode('wOFF0000')
+
+        await expect(registry.register(woff)).rejects.toThrow(
+            'Could not read the family name of Font data'
+        )
+        await expect(registry.register({ data: woff, name: 'Brand' })).resolves.toHaveLength(1)
+    })
+})
+
+describe('resolving registered fonts', () => {
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('uses a registered font instead of fetching it', async () => {
+        const registry = new FontRegistry()
+        const [inter] = await registry.register(makeFont('Inter', 700))
+        const fetchMock = vi.fn()
+        vi.stubGlobal('fetch', fetchMock)
+
+        const font = await resolveFont(
+            { name: 'Inter', weight: 700, url: 'https://example.com/inter.ttf' },
+            { fontRegistry: registry }
+        )
+
+        expect(font).toBe(inter)
+        expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('forbids fetching unregistered fonts in offline mode', async () => {
+        const fetchMock = vi.fn()
+        vi.stubGlobal('fetch', fetchMock)
+
+        await expect(
+            resolveFont({ name: 'Inter', weight: 700 }, {
+                offline: true,
+                fontRegistry: new FontRegistry(),
+            })
+        ).rejects.toThrow(
+            'Font "Inter" (weight: 700, style: normal) is not registered, and offline mode forbids fetching it.'
+        )
+        expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('returns undefined for unregistered fonts when online', () => {
+        expect(
+            resolveLocalFont({ name: 'Inter' }, { fontRegistry: new FontRegistry() })
+        ).toBeUndefined()
+    })
+})
@@ -1,5 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { loadGoogleFont, clearFontCache } from '../src/font'
+import {
+    loadGoogleFont,
+    loadGoogleFontFamily,
+    preloadFonts,
+    clearFontCache,
+    isFontCached,
+    resolveFont,
+} from '../src/font'
+import { createGoogleFontsProvider } from '../src/font-provider'
+import { detectFontFormat } from '../src/font-format'
+import { FontFormatError } from '../src/errors'
+import type { FontProvider } from '../src/types'
 
 // Sample CSS response from Google Fonts
 const MOCK_CSS = `
@@ -9,13 +20,21 @@ const MOCK_CSS = `
   font-style: normal;
   font-weight: 700;
   font-display: swap;
-  src: url(https://fonts.gstatic.com/s/inter/v13/mock-inter-bold.woff2) format('woff2');
+  src: url(https://fonts.gstatic.com/s/inter/v13/mock-inter-bold.ttf) format('truetype');
   unicode-range: U+0000-00FF;
 }
 `
 
-// Minimal valid font data (just needs to be an ArrayBuffer for our tests)
-const MOCK_FONT_DATA = new ArrayBuffer(100)
+/** Font data starting with the given signature bytes. */
+function fontBytes(...signature: number[]): ArrayBuffer {
+    const bytes = new Uint8Array(100)
+    bytes.set(signature)
+    return bytes.buffer
+}
+
+// Minimal font data: just a TrueType signature
+const MOCK_FONT_DATA = fontBytes(0x00, 0x01, 0x00, 0x00)
+const MOCK_WOFF2_DATA = fontBytes(0x77, 0x4f, 0x46, 0x32)
 
 describe('loadGoogleFont', () => {
     beforeEach(() => {
@@ -133,4 +152,494 @@ describe('loadGoogleFont', () => {
         const cssUrl = fetchMock.mock.calls[0][0] as string
         expect(cssUrl).toContain('text=Hello')
     })
+
+    it('passes the signal to both fetches', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response(MOCK_CSS, { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+        vi.stubGlobal('fetch', fetchMock)
+
+        await loadGoogleFont('Inter', { signal: new AbortController().signal })
+
+        expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal)
+        expect(fetchMock.mock.calls[1][1].signal).toBe(fetchMock.mock.calls[0][1].signal)
+    })
+
+    it('cancels the in-flight fetch when the signal fires', async () => {
+        const controller = new AbortController()
+        const fetchMock = vi.fn().mockImplementationOnce(
+            (_url: string, init: RequestInit) => {
+                controller.abort()
+                return new Promise(() => {})
+            }
+        )
+        vi.stubGlobal('fetch', fetchMock)
+
+        await expect(
+            loadGoogleFont('Inter', { signal: controller.signal })
+        ).rejects.toMatchObject({ name: 'RenderAbortError', phase: 'fonts' })
+        expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true)
+    })
+
+    it('times out a hanging CSS request and does not cache the failure', async () => {
+        const fetchMock = vi.fn().mockImplementationOnce(
+            (_url: string, init: RequestInit) =>
+                new Promise((_, reject) => {
+                    init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+                })
+        )
+        vi.stubGlobal('fetch', fetchMock)
+
+        await expect(
+            loadGoogleFont('Inter', { timeoutMs: 10 })
+        ).rejects.toThrow('Render timed out after 10ms during fonts')
+
+        fetchMock
+            .mockResolvedValueOnce(new Response(MOCK_CSS, { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+        await expect(loadGoogleFont('Inter')).resolves.toMatchObject({ name: 'Inter' })
+    })
+})
+
+describe('isFontCached', () => {
+    beforeEach(() => {
+        clearFontCache()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('reports whether a Google Font is in the cache', async () => {
+        vi.stubGlobal('fetch', vi.fn()
+            .mockResolvedValueOnce(new Response(MOCK_CSS, { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 })))
+
+        expect(isFontCached({ name: 'Inter', weight: 700 })).toBe(false)
+        await loadGoogleFont('Inter', { weight: 700 })
+        expect(isFontCached({ name: 'Inter', weight: 700 })).toBe(true)
+        expect(isFontCached({ name: 'Inter', weight: 400 })).toBe(false)
+    })
+
+    it('is false for fonts with inline data or a URL', () => {
+        expect(isFontCached({ name: 'Inter', data: new ArrayBuffer(1) })).toBe(false)
+        expect(isFontCached({ name: 'Inter', url: 'https://example.com/inter.ttf' })).toBe(false)
+    })
+})
+
+describe('font formats', () => {
+    beforeEach(() => {
+        clearFontCache()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('detects fonts from their signature', () => {
+        expect(detectFontFormat(fontBytes(0x00, 0x01, 0x00, 0x00))).toBe('ttf')
+        expect(detectFontFormat(new TextEncoder().encode('OTTO'))).toBe('otf')
+        expect(detectFontFormat(new TextEncoder().encode('wOFF'))).toBe('woff')
+        expect(detectFontFormat(new TextEncoder().encode('wOF2'))).toBe('woff2')
+        expect(detectFontFormat(new TextEncoder().encode('<html>'))).toBeUndefined()
+        expect(detectFontFormat(new Uint8Array(2))).toBeUndefined()
+    })
+
+    it('asks Google Fonts for TrueType and skips WOFF2 sources', async () => {
+        const css = `
+@font-face {
+  src: url(https://fonts.gstatic.com/inter.woff2) format('woff2');
+}
+@font-face {
+  src: url(https://fonts.gstatic.com/inter.ttf) format('truetype');
+}`
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response(css, { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+        vi.stubGlobal('fetch', fetchMock)
+
+        await loadGoogleFont('Inter')
+
+        const userAgent = fetchMock.mock.calls[0][1].headers['User-Agent'] as string
+        expect(userAgent).not.toContain('Chrome')
+        expect(fetchMock.mock.calls[1][0]).toBe('https://fonts.gstatic.com/inter.ttf')
+    })
+
+    it('rejects WOFF2 served by Google Fonts without caching it', async () => {
+        vi.stubGlobal('fetch', vi.fn()
+            .mockResolvedValueOnce(new Response(MOCK_CSS, { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_WOFF2_DATA, { status: 200 })))
+
+        const error = await loadGoogleFont('Inter', { weight: 700 }).catch((e) => e)
+
+        expect(error).toBeInstanceOf(FontFormatError)
+        expect(error.format).toBe('woff2')
+        expect(error.message).toContain('Google Font "Inter" is WOFF2')
+        expect(isFontCached({ name: 'Inter', weight: 700 })).toBe(false)
+    })
+
+    it('rejects a url font that is WOFF2', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(
+            new Response(MOCK_WOFF2_DATA, { status: 200 })
+        ))
+
+        await expect(
+            resolveFont({ name: 'Brand', url: 'https://example.com/brand.woff2' })
+        ).rejects.toThrow(
+            'Font "Brand" from "https://example.com/brand.woff2" is WOFF2'
+        )
+    })
+
+    it('rejects inline data that is not a font', async () => {
+        const data = new TextEncoder().encode('<!doctype html>').buffer
+
+        await expect(resolveFont({ name: 'Brand', data })).rejects.toThrow(
+            'Font "Brand" is not a TTF, OTF or WOFF font.'
+        )
+    })
+
+    it('passes supported inline data through', async () => {
+        const font = { name: 'Brand', data: new TextEncoder().encode('wOFF....').buffer }
+
+        await expect(resolveFont(font)).resolves.toBe(font)
+    })
+})
+
+/** A Google Fonts `@font-face` rule. */
+function fontFaceCss(weight: number, style: string, file: string): string {
+    return `@font-face {
+  font-family: 'Inter';
+  font-style: ${style};
+  font-weight: ${weight};
+  src: url(https://fonts.gstatic.com/${file}) format('truetype');
+}
+`
+}
+
+describe('italic and multi-weight loading', () => {
+    beforeEach(() => {
+        clearFontCache()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('requests the ital axis for italic fonts', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response(fontFaceCss(700, 'italic', 'bi.ttf'), { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const font = await loadGoogleFont('Inter', { weight: 700, style: 'italic' })
+
+        expect(font.style).toBe('italic')
+        const cssUrl = decodeURIComponent(fetchMock.mock.calls[0][0] as string)
+        expect(cssUrl).toContain('family=Inter:ital,wght@1,700')
+    })
+
+    it('loads every weight and style from one CSS response', async () => {
+        const css = [
+            fontFaceCss(400, 'normal', 'r.ttf'),
+            fontFaceCss(700, 'normal', 'b.ttf'),
+            fontFaceCss(400, 'italic', 'i.ttf'),
+            fontFaceCss(700, 'italic', 'bi.ttf'),
+        ].join('')
+        const fetchMock = vi.fn(async (url: string) =>
+            url.includes('googleapis')
+                ? new Response(css, { status: 200 })
+                : new Response(MOCK_FONT_DATA, { status: 200 })
+        )
+        vi.stubGlobal('fetch', fetchMock)
+
+        const fonts = await loadGoogleFontFamily('Inter', {
+            weights: [700, 400],
+            styles: ['italic', 'normal'],
+        })
+
+        expect(fonts.map((f) => [f.style, f.weight])).toEqual([
+            ['italic', 700],
+            ['italic', 400],
+            ['normal', 700],
+            ['normal', 400],
+        ])
+        const cssUrl = decodeURIComponent(fetchMock.mock.calls[0][0])
+        expect(cssUrl).toContain('family=Inter:ital,wght@0,400;0,700;1,400;1,700')
+        expect(fetchMock.mock.calls.slice(1).map(([url]) => url).sort()).toEqual([
+            'https://fonts.gstatic.com/b.ttf',
+            'https://fonts.gstatic.com/bi.ttf',
+            'https://fonts.gstatic.com/i.ttf',
+            'https://fonts.gstatic.com/r.ttf',
+        ])
+        expect(isFontCached({ name: 'Inter', weight: 400, style: 'italic' })).toBe(true)
+    })
+
+    it('only requests faces that are not cached', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response(fontFaceCss(400, 'normal', 'r.ttf'), { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+            .mockResolvedValueOnce(new Response(fontFaceCss(700, 'normal', 'b.ttf'), { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+        vi.stubGlobal('fetch', fetchMock)
+
+        await loadGoogleFont('Inter', { weight: 400 })
+        const fonts = await loadGoogleFontFamily('Inter', { weights: [400, 700] })
+
+        expect(fonts.map((f) => f.weight)).toEqual([400, 700])
+        expect(decodeURIComponent(fetchMock.mock.calls[2][0])).toContain(
+            'family=Inter:wght@700&'
+        )
+        expect(fetchMock).toHaveBeenCalledTimes(4)
+    })
+
+    it('throws when a requested face is missing from the CSS', async () => {
+        vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+            url.includes('googleapis')
+                ? new Response(fontFaceCss(400, 'normal', 'r.ttf'), { status: 200 })
+                : new Response(MOCK_FONT_DATA, { status: 200 })
+        ))
+
+        await expect(
+            loadGoogleFontFamily('Inter', { styles: ['normal', 'italic'] })
+        ).rejects.toThrow(
+            'Could not find font URL in Google Fonts CSS for "Inter" (weight: 400, style: italic)'
+        )
+    })
+})
+
+describe('subset caching', () => {
+    beforeEach(() => {
+        clearFontCache()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('caches subsets by character set', async () => {
+        const fetchMock = vi.fn(async (url: string) =>
+            url.includes('googleapis')
+                ? new Response(MOCK_CSS, { status: 200 })
+                : new Response(MOCK_FONT_DATA, { status: 200 })
+        )
+        vi.stubGlobal('fetch', fetchMock)
+
+        await loadGoogleFont('Inter', { weight: 700, text: 'abc' })
+        await loadGoogleFont('Inter', { weight: 700, text: 'cab' })
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+        expect(isFontCached({ name: 'Inter', weight: 700 }, { text: 'bca' })).toBe(true)
+
+        // A different character set, or the full font, is a separate entry
+        expect(isFontCached({ name: 'Inter', weight: 700 }, { text: 'abcd' })).toBe(false)
+        expect(isFontCached({ name: 'Inter', weight: 700 })).toBe(false)
+        await loadGoogleFont('Inter', { weight: 700 })
+        expect(fetchMock).toHaveBeenCalledTimes(4)
+    })
+})
+
+describe('in-flight deduplication', () => {
+    beforeEach(() => {
+        clearFontCache()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    /** A fetch stub serving CSS and font data, counting requests. */
+    function fontServer(css = MOCK_CSS) {
+        return vi.fn(async (url: string, init?: RequestInit) => {
+            // Yield so concurrent callers overlap
+            await new Promise((resolve) => setTimeout(resolve, 5))
+            init?.signal?.throwIfAborted()
+            return url.includes('googleapis')
+                ? new Response(css, { status: 200 })
+                : new Response(MOCK_FONT_DATA, { status: 200 })
+        })
+    }
+
+    it('shares one fetch between concurrent loads of the same font', async () => {
+        const fetchMock = fontServer()
+        vi.stubGlobal('fetch', fetchMock)
+
+        const fonts = await Promise.all(
+            Array.from({ length: 10 }, () => loadGoogleFont('Inter', { weight: 700 }))
+        )
+
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+        expect(new Set(fonts).size).toBe(1)
+    })
+
+    it('joins a family load that is fetching the same face', async () => {
+        const css = [fontFaceCss(400, 'normal', 'r.ttf'), fontFaceCss(700, 'normal', 'b.ttf')].join('')
+        const fetchMock = fontServer(css)
+        vi.stubGlobal('fetch', fetchMock)
+
+        const [family, bold] = await Promise.all([
+            loadGoogleFontFamily('Inter', { weights: [400, 700] }),
+            loadGoogleFont('Inter', { weight: 700 }),
+        ])
+
+        expect(bold).toBe(family[1])
+        // One CSS request and two font files
+        expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('does not share failures', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response('Error', { status: 500, statusText: 'Server Error' }))
+            .mockResolvedValueOnce(new Response(MOCK_CSS, { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+        vi.stubGlobal('fetch', fetchMock)
+
+        await expect(loadGoogleFont('Inter', { weight: 700 })).rejects.toThrow(
+            'Failed to fetch Google Font CSS'
+        )
+        await expect(loadGoogleFont('Inter', { weight: 700 })).resolves.toMatchObject({
+            name: 'Inter',
+        })
+    })
+
+    it('keeps the shared fetch going while another caller still waits', async () => {
+        const fetchMock = fontServer()
+        vi.stubGlobal('fetch', fetchMock)
+        const controller = new AbortController()
+
+        const cancelled = loadGoogleFont('Inter', { weight: 700, signal: controller.signal })
+        const waiting = loadGoogleFont('Inter', { weight: 700 })
+        controller.abort()
+
+        await expect(cancelled).rejects.toThrow('Render aborted during fonts')
+        await expect(waiting).resolves.toMatchObject({ name: 'Inter', weight: 700 })
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('cancels the shared fetch once every caller has given up', async () => {
+        const fetchMock = fontServer()
+        vi.stubGlobal('fetch', fetchMock)
+        const first = new AbortController()
+        const second = new AbortController()
+
+        const loads = [
+            loadGoogleFont('Inter', { weight: 700, signal: first.signal }),
+            loadGoogleFont('Inter', { weight: 700, signal: second.signal }),
+        ]
+        first.abort()
+        expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(false)
+        second.abort()
+
+        await Promise.allSettled(loads)
+        expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true)
+    })
+
+    it('warms the cache with preloadFonts', async () => {
+        const fetchMock = fontServer()
+        vi.stubGlobal('fetch', fetchMock)
+
+        const [inter] = await preloadFonts([{ name: 'Inter', weight: 700 }])
+
+        expect(isFontCached({ name: 'Inter', weight: 700 })).toBe(true)
+        await expect(loadGoogleFont('Inter', { weight: 700 })).resolves.toBe(inter)
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+})
+
+describe('font providers', () => {
+    beforeEach(() => {
+        clearFontCache()
+        vi.restoreAllMocks()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    function fakeProvider(name = 'fake'): FontProvider & { load: ReturnType<typeof vi.fn> } {
+        return {
+            name,
+            load: vi.fn(async (family: string, faces: { weight: any; style: any }[]) =>
+                faces.map((face) => ({ name: family, data: MOCK_FONT_DATA, ...face }))
+            ),
+        }
+    }
+
+    it('loads fonts from a custom provider without touching the network', async () => {
+        const fetchMock = vi.fn()
+        vi.stubGlobal('fetch', fetchMock)
+        const fontProvider = fakeProvider()
+
+        const font = await loadGoogleFont('Brand', { weight: 700, text: 'Hi', fontProvider })
+
+        expect(font).toEqual({ name: 'Brand', data: MOCK_FONT_DATA, weight: 700, style: 'normal' })
+        expect(fontProvider.load).toHaveBeenCalledWith(
+            'Brand',
+            [{ weight: 700, style: 'normal' }],
+            expect.objectContaining({ text: 'Hi', fetch: fetchMock })
+        )
+        expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('caches fonts per provider', async () => {
+        const fontProvider = fakeProvider()
+        await resolveFont({ name: 'Brand', weight: 700 }, { fontProvider })
+        await resolveFont({ name: 'Brand', weight: 700 }, { fontProvider })
+
+        expect(fontProvider.load).toHaveBeenCalledTimes(1)
+        expect(isFontCached({ name: 'Brand', weight: 700 }, { fontProvider })).toBe(true)
+        expect(isFontCached({ name: 'Brand', weight: 700 })).toBe(false)
+    })
+
+    it('rejects fonts a provider returns in an unsupported format', async () => {
+        const fontProvider: FontProvider = {
+            name: 'fake',
+            load: async (family, faces) =>
+                faces.map((face) => ({ name: family, data: MOCK_WOFF2_DATA, ...face })),
+        }
+
+        await expect(loadGoogleFont('Brand', { fontProvider })).rejects.toThrow(
+            'Font "Brand" from provider "fake" is WOFF2'
+        )
+        expect(isFontCached({ name: 'Brand' }, { fontProvider })).toBe(false)
+    })
+
+    it('makes every request with a custom fetch', async () => {
+        const globalFetch = vi.fn()
+        vi.stubGlobal('fetch', globalFetch)
+        const fetch = vi.fn()
+            .mockResolvedValueOnce(new Response(MOCK_CSS, { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+
+        await loadGoogleFont('Inter', { weight: 700, fetch })
+
+        expect(fetch).toHaveBeenCalledTimes(2)
+        expect(globalFetch).not.toHaveBeenCalled()
+    })
+
+    it('fetches url fonts with a custom fetch', async () => {
+        const fetch = vi.fn().mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+
+        const font = await resolveFont(
+            { name: 'Brand', url: 'https://example.com/brand.ttf' },
+            { fetch }
+        )
+
+        expect(font.data!.byteLength).toBe(MOCK_FONT_DATA.byteLength)
+        expect(fetch.mock.calls[0][0]).toBe('https://example.com/brand.ttf')
+    })
+
+    it('requests CSS from a Google Fonts mirror', async () => {
+        const fetch = vi.fn()
+            .mockResolvedValueOnce(new Response(MOCK_CSS, { status: 200 }))
+            .mockResolvedValueOnce(new Response(MOCK_FONT_DATA, { status: 200 }))
+        const fontProvider = createGoogleFontsProvider({
+            baseUrl: 'https://fonts.example.com/',
+        })
+
+        await loadGoogleFont('Inter', { weight: 700, fontProvider, fetch })
+
+        expect(fontProvider.name).toBe('google:https://fonts.example.com')
+        expect(fetch.mock.calls[0][0]).toMatch(/^https:\/\/fonts\.example\.com\/css2\?family=Inter/)
+        expect(isFontCached({ name: 'Inter', weight: 700 }, { fontProvider })).toBe(true)
+        expect(isFontCached({ name: 'Inter', weight: 700 })).toBe(false)
+    })
 })
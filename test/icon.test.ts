@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, writeFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { loadIcon, clearIconCache } from '../src/icon'
+
+const ICON = '<svg xmlns="http://www.w3.org/2000/svg" stroke="currentColor"/>'
+
+/** Decode an SVG data-URI back to markup. */
+function decode(dataUri: string): string {
+    return Buffer.from(dataUri.split(',')[1]!, 'base64').toString('utf8')
+}
+
+describe('loadIcon', () => {
+    beforeEach(() => {
+        clearIconCache()
+        vi.restoreAllMocks()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('fetches a built-in set icon and returns a data-URI', async () => {
+        const fetch = vi.fn().mockResolvedValue(new Response(ICON, { status: 200 }))
+
+        const icon = await loadIcon('lucide', 'arrow-right', { fetch })
+
+        expect(icon).toMatch(/^data:image\/svg\+xml;base64,/)
+        expect(decode(icon)).toBe(ICON)
+        expect(fetch.mock.calls[0][0]).toBe(
+            'https://cdn.jsdelivr.net/npm/lucide-static@latest/icons/arrow-right.svg'
+        )
+    })
+
+    it('caches icons per color', async () => {
+        const fetch = vi.fn().mockImplementation(async () => new Response(ICON, { status: 200 }))
+
+        await loadIcon('lucide', 'star', { fetch })
+        await loadIcon('lucide', 'star', { fetch })
+        const white = await loadIcon('lucide', 'star', { fetch, color: '#fff' })
+
+        expect(fetch).toHaveBeenCalledTimes(2)
+        expect(decode(white)).toContain('stroke="#fff"')
+    })
+
+    it('fills in a URL template', async () => {
+        const fetch = vi.fn().mockResolvedValue(new Response(ICON, { status: 200 }))
+
+        await loadIcon('https://icons.example.com/{name}.svg', 'logo', { fetch })
+
+        expect(fetch.mock.calls[0][0]).toBe('https://icons.example.com/logo.svg')
+    })
+
+    it('throws when the icon is not found', async () => {
+        const fetch = vi.fn().mockResolvedValue(
+            new Response('', { status: 404, statusText: 'Not Found' })
+        )
+
+        await expect(loadIcon('lucide', 'nope', { fetch })).rejects.toThrow(
+            'Failed to load icon "nope" from "https://cdn.jsdelivr.net/npm/lucide-static@latest/icons/nope.svg": 404 Not Found'
+        )
+    })
+
+    it('serves icons from a map', async () => {
+        const icons = { logo: ICON }
+
+        expect(decode(await loadIcon(icons, 'logo', { color: 'red' }))).toContain('stroke="red"')
+        await expect(loadIcon(icons, 'other')).rejects.toThrow('Icon "other" is not in the icon set.')
+    })
+
+    it('rejects unknown sets and names that could escape the set', async () => {
+        await expect(loadIcon('material', 'home')).rejects.toThrow('Unknown icon set "material"')
+        await expect(loadIcon('./icons/{name}.svg', '../secret')).rejects.toThrow(
+            'Invalid icon name "../secret"'
+        )
+    })
+
+    describe('from files', () => {
+        let dir: string
+
+        beforeEach(async () => {
+            dir = await mkdtemp(join(tmpdir(), 'og-icons-'))
+            await writeFile(join(dir, 'logo.svg'), ICON)
+        })
+
+        afterEach(async () => {
+            await rm(dir, { recursive: true, force: true })
+        })
+
+        it('reads a path or file URL template', async () => {
+            const fromPath = await loadIcon(join(dir, '{name}.svg'), 'logo')
+            const fromUrl = await loadIcon(`${pathToFileURL(dir).href}/{name}.svg`, 'logo')
+
+            expect(decode(fromPath)).toBe(ICON)
+            expect(fromUrl).toBe(fromPath)
+            await expect(loadIcon(join(dir, '{name}.svg'), 'missing')).rejects.toThrow(
+                'Icon "missing" not found at'
+            )
+        })
+    })
+})
@@ -0,0 +1,282 @@
+import { describe, it, expect, vi } from 'vitest'
+import { inflateSync } from 'node:zlib'
+import {
+    decodeGif,
+    decodeWithWasmCodec,
+    encodePng,
+    isAnimatedGif,
+    needsTranscode,
+} from '../src/image-decode'
+import { fetchImage, fetchImageInfo } from '../src/image'
+import { readImageSize } from '../src/image-size'
+import { ImageFormatError } from '../src/errors'
+
+// Behave as if the optional dependencies aren't installed, except for
+// the WebP codec
+vi.mock('sharp', () => {
+    throw new Error('Cannot find module "sharp"')
+})
+vi.mock('@jsquash/avif/decode.js', () => {
+    throw new Error('Cannot find module "@jsquash/avif"')
+})
+
+/** A 1×1 transparent GIF, as commonly used for tracking pixels. */
+const PIXEL_GIF = Uint8Array.from(
+    Buffer.from(
+        '47494638396101000100800000ffffff00000021f90401000000002c00000000010001000002024401003b',
+        'hex'
+    )
+)
+
+/**
+ * LZW-compress palette indices the way GIF encoders do, growing the code
+ * size as the dictionary fills.
+ */
+function lzwEncode(indices: number[], minCodeSize: number): number[] {
+    const clearCode = 1 << minCodeSize
+    let codeSize = minCodeSize + 1
+    let nextCode = clearCode + 2
+    const dictionary = new Map<string, number>()
+    for (let code = 0; code < clearCode; code++) dictionary.set(String(code), code)
+
+    const output: number[] = []
+    let buffer = 0
+    let bits = 0
+    const emit = (code: number) => {
+        buffer |= code << bits
+        bits += codeSize
+        while (bits >= 8) {
+            output.push(buffer & 0xff)
+            buffer >>>= 8
+            bits -= 8
+        }
+    }
+
+    emit(clearCode)
+    let current = String(indices[0])
+    for (const index of indices.slice(1)) {
+        const key = `${current},${index}`
+        if (dictionary.has(key)) {
+            current = key
+            continue
+        }
+        emit(dictionary.get(current)!)
+        dictionary.set(key, nextCode++)
+        if (nextCode === (1 << codeSize) + 1 && codeSize < 12) codeSize++
+        current = String(index)
+    }
+    emit(dictionary.get(current)!)
+    emit(clearCode + 1)
+    if (bits > 0) output.push(buffer & 0xff)
+    return output
+}
+
+/**
+ * Build a GIF with a 4-color global palette (red, green, blue, white)
+ * and one image per frame of palette indices.
+ */
+function gif(width: number, height: number, frames: number[][], interlaced = false): Uint8Array {
+    const u16 = (n: number) => [n & 0xff, n >> 8]
+    const bytes = [
+        ...Buffer.from('GIF89a'),
+        ...u16(width),
+        ...u16(height),
+        0x81, 0, 0,
+        0xff, 0, 0, 0, 0xff, 0, 0, 0, 0xff, 0xff, 0xff, 0xff,
+    ]
+    for (const indices of frames) {
+        const data = lzwEncode(indices, 2)
+        bytes.push(0x2c, ...u16(0), ...u16(0), ...u16(width), ...u16(height), interlaced ? 0x40 : 0)
+        bytes.push(2)
+        for (let i = 0; i < data.length; i += 255) {
+            const block = data.slice(i, i + 255)
+            bytes.push(block.length, ...block)
+        }
+        bytes.push(0)
+    }
+    bytes.push(0x3b)
+    return Uint8Array.from(bytes)
+}
+
+/** A red and a blue pixel, encoded as lossless WebP and AVIF. */
+const WEBP = Uint8Array.from(
+    Buffer.from('UklGRh4AAABXRUJQVlA4TBEAAAAvAQAAAA8Q87//8x8OMqL/AQA=', 'base64')
+)
+const AVIF = Uint8Array.from(
+    Buffer.from(
+        'AAAAIGZ0eXBhdmlmAAAAAGF2aWZtaWYxbWlhZk1BMUEAAADybWV0YQAAAAAAAAAoaGRscgAAAAAAAAAAcGljdAAAAAAAAAAAAAAAAGxpYmF2aWYAAAAADnBpdG0AAAAAAAEAAAAeaWxvYwAAAABEAAABAAEAAAABAAABGgAAAEIAAAAoaWluZgAAAAAAAQAAABppbmZlAgAAAAABAABhdjAxQ29sb3IAAAAAamlwcnAAAABLaXBjbwAAABRpc3BlAAAAAAAAAAIAAAABAAAAEHBpeGkAAAAAAwgICAAAAAxhdjFDgSAAAAAAABNjb2xybmNseAACAAIAAIAAAAAXaXBtYQAAAAAAAAABAAEEAQKDBAAAAEptZGF0EgAKBzgAJhAgIAkyNRAAAAAP+j9adiWd/7o5sgVHIE8gT0MXHfJjGC6rrqu5gntfENe3pPqc+p1Nq4AiklcE1wT0',
+        'base64'
+    )
+)
+
+/** RGBA for palette index `index`. */
+const PALETTE = [
+    [255, 0, 0, 255],
+    [0, 255, 0, 255],
+    [0, 0, 255, 255],
+    [255, 255, 255, 255],
+]
+
+/** Indices for a `width` × `height` image with varied, repeating runs. */
+function pattern(width: number, height: number): number[] {
+    return Array.from({ length: width * height }, (_, i) => Math.floor(i / 3 + (i % 7)) % 4)
+}
+
+describe('decodeGif', () => {
+    it('decodes a transparent pixel', () => {
+        expect(decodeGif(PIXEL_GIF)).toEqual({
+            width: 1,
+            height: 1,
+            data: new Uint8Array([0, 0, 0, 0]),
+        })
+    })
+
+    it('decodes the first frame as RGBA', () => {
+        const indices = pattern(24, 20)
+        const decoded = decodeGif(gif(24, 20, [indices, indices.map(() => 3)]))
+
+        expect(decoded.width).toBe(24)
+        expect(decoded.height).toBe(20)
+        expect([...decoded.data]).toEqual(indices.flatMap((index) => PALETTE[index]!))
+    })
+
+    it('refuses frames larger than the screen', () => {
+        const frame = gif(4, 4, [pattern(4, 4)])
+        frame.set([2, 0, 2, 0], 6)
+
+        expect(() => decodeGif(frame)).toThrow('GIF frame is larger than its logical screen')
+    })
+
+    it('puts interlaced rows back in order', () => {
+        // Rows are stored as 0, 8, 4, 2, 6, 1, 3, 5, 7, 9
+        const rows = [0, 8, 4, 2, 6, 1, 3, 5, 7, 9]
+        const stored = rows.flatMap((row) => Array<number>(2).fill(row % 4))
+        const decoded = decodeGif(gif(2, 10, [stored], true))
+
+        for (let row = 0; row < 10; row++) {
+            expect([...decoded.data.subarray(row * 8, row * 8 + 4)]).toEqual(PALETTE[row % 4])
+        }
+    })
+})
+
+describe('isAnimatedGif', () => {
+    it('counts frames', () => {
+        expect(isAnimatedGif(gif(2, 2, [[0, 1, 2, 3]]))).toBe(false)
+        expect(isAnimatedGif(gif(2, 2, [[0, 1, 2, 3], [3, 2, 1, 0]]))).toBe(true)
+        expect(isAnimatedGif(new TextEncoder().encode('not a gif'))).toBe(false)
+    })
+
+    it('decides which formats need transcoding', () => {
+        expect(needsTranscode(new Uint8Array(), 'image/webp')).toBe(true)
+        expect(needsTranscode(new Uint8Array(), 'image/avif')).toBe(true)
+        expect(needsTranscode(gif(2, 2, [[0, 1, 2, 3]]), 'image/gif')).toBe(false)
+        expect(needsTranscode(new Uint8Array(), 'image/png')).toBe(false)
+    })
+})
+
+describe('encodePng', () => {
+    it('encodes RGBA pixels as a PNG', async () => {
+        const data = new Uint8Array([255, 0, 0, 255, 0, 0, 255, 128, 0, 255, 0, 255, 1, 2, 3, 4])
+        const png = await encodePng({ width: 2, height: 2, data })
+
+        expect(readImageSize(png)).toEqual({ width: 2, height: 2 })
+        // The IDAT chunk follows the 8-byte signature and 25-byte IHDR chunk
+        const length = new DataView(png.buffer).getUint32(33)
+        const raw = inflateSync(png.subarray(41, 41 + length))
+        expect([...raw]).toEqual([0, ...data.subarray(0, 8), 0, ...data.subarray(8)])
+    })
+
+    it('rejects data of the wrong size', async () => {
+        await expect(encodePng({ width: 2, height: 2, data: new Uint8Array(4) })).rejects.toThrow(
+            'should be 2×2 RGBA pixels'
+        )
+    })
+})
+
+describe('decodeWithWasmCodec', () => {
+    it('decodes WebP with @jsquash/webp', async () => {
+        const decoded = await decodeWithWasmCodec(WEBP, 'image/webp')
+
+        expect(decoded).toMatchObject({ width: 2, height: 1 })
+        expect([...decoded!.data]).toEqual([255, 0, 0, 255, 0, 0, 255, 255])
+    })
+
+    it('returns undefined when the codec is not installed', async () => {
+        await expect(decodeWithWasmCodec(AVIF, 'image/avif')).resolves.toBeUndefined()
+        await expect(decodeWithWasmCodec(WEBP, 'image/png')).resolves.toBeUndefined()
+    })
+})
+
+describe('fetchImage format normalization', () => {
+    it('converts animated GIFs to a PNG of the first frame', async () => {
+        const image = await fetchImageInfo(gif(2, 2, [[0, 1, 2, 3], [3, 3, 3, 3]]))
+
+        expect(image).toMatchObject({ mimeType: 'image/png', width: 2, height: 2 })
+        expect(image.src).toMatch(/^data:image\/png;base64,/)
+    })
+
+    it('leaves static GIFs alone', async () => {
+        await expect(fetchImage(gif(2, 2, [[0, 1, 2, 3]]))).resolves.toMatch(
+            /^data:image\/gif;base64,/
+        )
+    })
+
+    it('converts WebP with the wasm codec by default', async () => {
+        const image = await fetchImageInfo(WEBP)
+
+        expect(image).toMatchObject({ mimeType: 'image/png', width: 2, height: 1 })
+    })
+
+    it('converts to PNG for format "png" without sharp', async () => {
+        await expect(fetchImageInfo(WEBP, { format: 'png' })).resolves.toMatchObject({
+            mimeType: 'image/png',
+        })
+        await expect(fetchImage(WEBP, { format: 'jpeg' })).rejects.toThrow(
+            'Image option "format" requires the optional "sharp" dependency'
+        )
+    })
+
+    it('converts with a custom decoder', async () => {
+        const decoder = vi.fn(async () => ({ width: 1, height: 1, data: new Uint8Array(4) }))
+
+        await expect(fetchImageInfo(WEBP, { decoder })).resolves.toMatchObject({
+            mimeType: 'image/png',
+            width: 1,
+            height: 1,
+        })
+        expect(decoder).toHaveBeenCalledWith(WEBP, 'image/webp')
+    })
+
+    it('refuses images over maxPixels before decoding them', async () => {
+        // A few bytes with two frames, claiming a 30000×30000 screen
+        const bomb = gif(2, 2, [[0, 1, 2, 3], [3, 3, 3, 3]])
+        bomb.set([0x30, 0x75, 0x30, 0x75], 6)
+        const decoder = vi.fn(() => undefined)
+
+        const error = await fetchImage(bomb, { decoder }).catch((e) => e)
+
+        expect(error).toBeInstanceOf(ImageFormatError)
+        expect(error.message).toContain('is 30000×30000, more than the 50000000 pixels')
+        expect(decoder).not.toHaveBeenCalled()
+        await expect(fetchImage(WEBP, { maxPixels: 1 })).rejects.toThrow(
+            'is 2×1, more than the 1 pixels'
+        )
+    })
+
+    it('refuses decoded images over maxPixels', async () => {
+        const decoder = () => ({ width: 8, height: 8, data: new Uint8Array(256) })
+
+        await expect(fetchImage(WEBP, { decoder, maxPixels: 10 })).rejects.toThrow(
+            'is 8×8, more than the 10 pixels'
+        )
+    })
+
+    it('throws when nothing can decode the format', async () => {
+        const error = await fetchImage(AVIF, { decoder: () => undefined }).catch((e) => e)
+
+        expect(error).toBeInstanceOf(ImageFormatError)
+        expect(error).toMatchObject({ mimeType: 'image/avif' })
+        expect(error.message).toContain(`image/avif, which the renderer can't decode`)
+        expect(error.message).toContain(`Install "@jsquash/avif" or "sharp"`)
+    })
+})
@@ -18,7 +18,7 @@ vi.mock('@resvg/resvg-wasm', () => {
 })
 
 vi.mock('../src/resvg-wasm', () => ({
-    resvgWasm: 'mock-base64-string',
+    resvgWasm: 'AGFzbQ==',
 }))
 
 // Mock the font module to avoid real fetch calls
@@ -36,6 +36,12 @@ vi.mock('../src/font', () => ({
         style: font.style ?? 'normal',
     })),
     clearFontCache: vi.fn(),
+    isFontCached: vi.fn().mockReturnValue(false),
+}))
+
+// Mock sharp loading so lossy formats can be tested without the native dep
+vi.mock('../src/image', () => ({
+    tryImportSharp: vi.fn().mockResolvedValue(null),
 }))
 
 describe('ImageResponse', () => {
@@ -66,6 +72,7 @@ describe('ImageResponse', () => {
         )
 
         expect(response.status).toBe(200)
+        await response.arrayBuffer()
     })
 
     it('allows custom status code', async () => {
@@ -77,6 +84,7 @@ describe('ImageResponse', () => {
         )
 
         expect(response.status).toBe(201)
+        await response.arrayBuffer()
     })
 
     it('sets Cache-Control header by default', async () => {
@@ -89,6 +97,7 @@ describe('ImageResponse', () => {
         expect(response.headers.get('Cache-Control')).toBe(
             'public, max-age=3600, immutable'
         )
+        await response.arrayBuffer()
     })
 
     it('merges user-provided headers with defaults', async () => {
@@ -109,6 +118,7 @@ describe('ImageResponse', () => {
         expect(response.headers.get('Cache-Control')).toBe('no-cache')
         // Content-Type should still be set
         expect(response.headers.get('Content-Type')).toBe('image/png')
+        await response.arrayBuffer()
     })
 
     it('calls satori with correct dimensions', async () => {
@@ -200,4 +210,204 @@ describe('ImageResponse', () => {
         expect(buffer[2]).toBe(78)  // N
         expect(buffer[3]).toBe(71)  // G
     })
+
+    it('returns the raw satori SVG for format "svg"', async () => {
+        const { ImageResponse } = await import('../src/image-response')
+        const { Resvg } = await import('@resvg/resvg-wasm')
+
+        const response = new ImageResponse(
+            React.createElement('div', null, 'Test'),
+            { format: 'svg' }
+        )
+
+        expect(response.headers.get('Content-Type')).toBe('image/svg+xml')
+        expect(await response.text()).toBe('<svg>mock</svg>')
+        expect(Resvg).not.toHaveBeenCalled()
+    })
+
+    it('transcodes to WebP with sharp and the given quality', async () => {
+        const { ImageResponse } = await import('../src/image-response')
+        const { tryImportSharp } = await import('../src/image')
+
+        const webp = vi.fn().mockReturnValue({
+            toBuffer: vi.fn().mockResolvedValue(Buffer.from('RIFF')),
+        })
+        const sharp = vi.fn().mockReturnValue({ webp })
+        vi.mocked(tryImportSharp).mockResolvedValueOnce({ default: sharp })
+
+        const response = new ImageResponse(
+            React.createElement('div', null, 'Test'),
+            { format: 'webp', quality: 60 }
+        )
+
+        expect(response.headers.get('Content-Type')).toBe('image/webp')
+        expect(await response.text()).toBe('RIFF')
+        expect(webp).toHaveBeenCalledWith({ quality: 60 })
+    })
+
+    it('errors when a lossy format is requested without sharp', async () => {
+        const { ImageResponse } = await import('../src/image-response')
+
+        const response = new ImageResponse(
+            React.createElement('div', null, 'Test'),
+            { format: 'jpeg' }
+        )
+
+        expect(response.headers.get('Content-Type')).toBe('image/jpeg')
+        await expect(response.arrayBuffer()).rejects.toThrow('requires the optional "sharp" dependency')
+    })
+
+    it('errors the body instead of caching a fallback when the pipeline fails', async () => {
+        const { ImageResponse } = await import('../src/image-response')
+        const satori = (await import('satori')).default
+        vi.mocked(satori).mockRejectedValueOnce(new Error('layout failed'))
+
+        const response = new ImageResponse(
+            React.createElement('div', null, 'Test')
+        )
+
+        expect(response.status).toBe(200)
+        expect(response.headers.get('Cache-Control')).toBe('public, max-age=3600, immutable')
+        await expect(response.arrayBuffer()).rejects.toThrow('layout failed')
+        expect(satori).toHaveBeenCalledTimes(1)
+    })
+
+    it('streams the fallback card only when onError is given', async () => {
+        const { ImageResponse } = await import('../src/image-response')
+        const satori = (await import('satori')).default
+        const error = new Error('layout failed')
+        vi.mocked(satori).mockRejectedValueOnce(error)
+        const onError = vi.fn()
+
+        const response = new ImageResponse(
+            React.createElement('div', null, 'Test'),
+            { onError }
+        )
+
+        const buffer = new Uint8Array(await response.arrayBuffer())
+        expect(buffer[0]).toBe(137)
+        expect(onError).toHaveBeenCalledWith(error)
+        expect(satori).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe('createImageResponse', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('renders before committing status and headers', async () => {
+        const { createImageResponse } = await import('../src/image-response')
+
+        const response = await createImageResponse(
+            React.createElement('div', null, 'Test'),
+            { format: 'svg', headers: { 'X-Custom': 'yes' } }
+        )
+
+        expect(response.status).toBe(200)
+        expect(response.headers.get('Content-Type')).toBe('image/svg+xml')
+        expect(response.headers.get('Cache-Control')).toBe('public, max-age=3600, immutable')
+        expect(response.headers.get('X-Custom')).toBe('yes')
+        expect(await response.text()).toBe('<svg>mock</svg>')
+    })
+
+    it('serves a non-cacheable fallback card by default', async () => {
+        const { createImageResponse } = await import('../src/image-response')
+        const { loadGoogleFont } = await import('../src/font')
+        vi.mocked(loadGoogleFont).mockRejectedValueOnce(new Error('font fetch failed'))
+
+        const response = await createImageResponse(
+            React.createElement('div', null, 'Test'),
+            { format: 'svg', headers: { 'Cache-Control': 'public, max-age=60' } }
+        )
+
+        expect(response.status).toBe(200)
+        expect(response.headers.get('Cache-Control')).toBe('no-store, max-age=0')
+        expect(await response.text()).toContain('<rect')
+    })
+
+    it('passes the error to onError and uses its element and status', async () => {
+        const { createImageResponse } = await import('../src/image-response')
+        const satori = (await import('satori')).default
+        const error = new Error('layout failed')
+        vi.mocked(satori)
+            .mockRejectedValueOnce(error)
+            .mockResolvedValueOnce('<svg>fallback</svg>')
+
+        const onError = vi.fn().mockReturnValue({
+            element: React.createElement('div', null, 'Oops'),
+            status: 503,
+            headers: { 'Retry-After': '30' },
+        })
+
+        const response = await createImageResponse(
+            React.createElement('div', null, 'Test'),
+            { format: 'svg', onError }
+        )
+
+        expect(onError).toHaveBeenCalledWith(error)
+        expect(response.status).toBe(503)
+        expect(response.headers.get('Retry-After')).toBe('30')
+        expect(response.headers.get('Cache-Control')).toBe('no-store, max-age=0')
+        expect(await response.text()).toBe('<svg>fallback</svg>')
+    })
+
+    it('rethrows when even the fallback card cannot be rendered', async () => {
+        const { createImageResponse } = await import('../src/image-response')
+        const { Resvg } = await import('@resvg/resvg-wasm')
+        const fail = () => {
+            throw new Error('rasterizer failed')
+        }
+        // Once for the render, once for the fallback card
+        vi.mocked(Resvg).mockImplementationOnce(fail).mockImplementationOnce(fail)
+
+        await expect(
+            createImageResponse(React.createElement('div', null, 'Test'))
+        ).rejects.toThrow('rasterizer failed')
+    })
+
+    it('responds 503 with Retry-After when the render queue is full', async () => {
+        const { createImageResponse } = await import('../src/image-response')
+        const { RenderQueue } = await import('../src/queue')
+        const queue = new RenderQueue({ maxConcurrentRenders: 0, maxQueue: 0, retryAfter: 30 })
+        const onError = vi.fn()
+
+        const response = await createImageResponse(
+            React.createElement('div', null, 'Test'),
+            { queue, onError }
+        )
+
+        expect(response.status).toBe(503)
+        expect(response.headers.get('Retry-After')).toBe('30')
+        expect(response.headers.get('Cache-Control')).toBe('no-store, max-age=0')
+        expect(onError).not.toHaveBeenCalled()
+    })
+
+    it('adds a Server-Timing header when serverTiming is enabled', async () => {
+        const { createImageResponse } = await import('../src/image-response')
+        const onMetrics = vi.fn()
+
+        const response = await createImageResponse(
+            React.createElement('div', null, 'Test'),
+            { serverTiming: true, onMetrics }
+        )
+
+        const header = response.headers.get('Server-Timing')
+        expect(header).toMatch(/(^|, )fonts;dur=\d+\.\d/)
+        expect(header).toMatch(/(^|, )rasterize;dur=\d+\.\d/)
+        expect(header).toMatch(/(^|, )total;dur=\d+\.\d/)
+        expect(header).toContain('font-cache;desc="hit=0 miss=1"')
+        expect(header).toContain('bytes;desc="4"')
+        expect(onMetrics).toHaveBeenCalledTimes(1)
+    })
+
+    it('omits Server-Timing by default', async () => {
+        const { createImageResponse } = await import('../src/image-response')
+
+        const response = await createImageResponse(
+            React.createElement('div', null, 'Test')
+        )
+
+        expect(response.headers.has('Server-Timing')).toBe(false)
+    })
 })
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { readImageSize, sniffImageType } from '../src/image-size'
+
+/** Bytes from a mix of byte values and ASCII strings. */
+function bytes(...parts: (number | string)[]): Uint8Array {
+    return new Uint8Array(
+        parts.flatMap((part) =>
+            typeof part === 'string' ? [...part].map((char) => char.charCodeAt(0)) : [part]
+        )
+    )
+}
+
+const u16be = (n: number) => [n >> 8, n & 0xff]
+const u16le = (n: number) => [n & 0xff, n >> 8]
+const u32be = (n: number) => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]
+
+const PNG_HEADER = bytes(
+    0x89, 'PNG', 0x0d, 0x0a, 0x1a, 0x0a,
+    ...u32be(13), 'IHDR', ...u32be(640), ...u32be(480), 8, 6, 0, 0, 0
+)
+
+describe('readImageSize', () => {
+    it('reads PNG', () => {
+        expect(readImageSize(PNG_HEADER)).toEqual({ width: 640, height: 480 })
+    })
+
+    it('reads GIF', () => {
+        expect(readImageSize(bytes('GIF89a', ...u16le(300), ...u16le(200), 0, 0, 0))).toEqual({
+            width: 300,
+            height: 200,
+        })
+    })
+
+    it('reads JPEG past APP segments and fill bytes', () => {
+        const jpeg = bytes(
+            0xff, 0xd8,
+            0xff, 0xe0, ...u16be(16), 'JFIF', 0, 1, 1, 0, 0, 1, 0, 1, 0, 0,
+            0xff, 0xdb, ...u16be(4), 0, 0,
+            0xff, 0xff, 0xc2, ...u16be(17), 8, ...u16be(1080), ...u16be(1920), 3
+        )
+        expect(readImageSize(jpeg)).toEqual({ width: 1920, height: 1080 })
+    })
+
+    it('reads lossy, lossless and extended WebP', () => {
+        const riff = (chunk: string, ...data: number[]) =>
+            bytes('RIFF', 0, 0, 0, 0, 'WEBP', chunk, 0, 0, 0, 0, ...data)
+
+        const lossy = riff('VP8 ', 0, 0, 0, 0x9d, 0x01, 0x2a, ...u16le(400), ...u16le(300))
+        expect(readImageSize(lossy)).toEqual({ width: 400, height: 300 })
+
+        // 14 bits of width - 1, then 14 bits of height - 1, after a 0x2f signature byte
+        const bits = (400 - 1) | ((300 - 1) << 14)
+        const lossless = riff(
+            'VP8L',
+            0x2f,
+            bits & 0xff,
+            (bits >> 8) & 0xff,
+            (bits >> 16) & 0xff,
+            bits >>> 24
+        )
+        expect(readImageSize(lossless)).toEqual({ width: 400, height: 300 })
+
+        const extended = riff('VP8X', 0, 0, 0, 0, 0x8f, 0x01, 0, 0x2b, 0x01, 0)
+        expect(readImageSize(extended)).toEqual({ width: 400, height: 300 })
+    })
+
+    it('reads AVIF from the largest ispe property', () => {
+        const box = (type: string, ...data: (number | string)[]) => {
+            const contents = bytes(...data)
+            return [...u32be(8 + contents.length), type, ...contents]
+        }
+        const ispe = (width: number, height: number) =>
+            box('ispe', 0, 0, 0, 0, ...u32be(width), ...u32be(height))
+
+        const avif = bytes(
+            ...box('ftyp', 'avif', 0, 0, 0, 0, 'mif1'),
+            ...box(
+                'meta',
+                0, 0, 0, 0,
+                ...box('hdlr', 0, 0, 0, 0, 0, 0, 0, 0, 'pict'),
+                // A 512×512 grid tile before the 1024×768 image
+                ...box('iprp', ...box('ipco', ...ispe(512, 512), ...ispe(1024, 768)))
+            )
+        )
+        expect(readImageSize(avif)).toEqual({ width: 1024, height: 768 })
+    })
+
+    it('reads SVG width and height, falling back to the viewBox', () => {
+        const svg = (attributes: string) =>
+            new TextEncoder().encode(
+                `<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg" ${attributes}></svg>`
+            )
+
+        expect(readImageSize(svg('width="120px" height="60"'))).toEqual({ width: 120, height: 60 })
+        expect(readImageSize(svg('viewBox="0 0 24 12"'))).toEqual({ width: 24, height: 12 })
+        expect(readImageSize(svg('width="48" viewBox="0 0 24 12"'))).toEqual({ width: 48, height: 24 })
+        expect(readImageSize(svg('width="100%"'))).toBeUndefined()
+    })
+
+    it('returns undefined for unknown or truncated data', () => {
+        expect(readImageSize(bytes('not an image'))).toBeUndefined()
+        expect(readImageSize(PNG_HEADER.subarray(0, 20))).toBeUndefined()
+        expect(readImageSize(bytes(0xff, 0xd8, 0xff, 0xe0, 0, 16))).toBeUndefined()
+    })
+})
+
+describe('sniffImageType', () => {
+    it('detects formats from their magic bytes', () => {
+        expect(sniffImageType(PNG_HEADER)).toBe('image/png')
+        expect(sniffImageType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe('image/jpeg')
+        expect(sniffImageType(bytes('GIF87a'))).toBe('image/gif')
+        expect(sniffImageType(bytes('RIFF', 0, 0, 0, 0, 'WEBPVP8 '))).toBe('image/webp')
+        expect(sniffImageType(bytes(0, 0, 0, 0x1c, 'ftypavif'))).toBe('image/avif')
+        expect(sniffImageType(bytes('<?xml version="1.0"?>\n<!-- logo -->\n<svg>'))).toBe(
+            'image/svg+xml'
+        )
+    })
+
+    it('returns undefined for unknown data', () => {
+        expect(sniffImageType(bytes('not an image'))).toBeUndefined()
+        expect(sniffImageType(bytes('<html><svg></svg></html>'))).toBeUndefined()
+    })
+})
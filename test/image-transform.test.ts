@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest'
+import { hasTransforms, sharpOnlyOption, transformImage } from '../src/image-transform'
+import { fetchImage } from '../src/image'
+
+// Behave as if the optional dependency isn't installed
+vi.mock('sharp', () => {
+    throw new Error('Cannot find module "sharp"')
+})
+
+/**
+ * A stand-in for `sharp` that records each pipeline's calls. Images
+ * report `metadata` as 400×200; encoded output is `ENCODED`.
+ */
+function fakeSharp() {
+    const pipelines: { input: unknown; calls: [string, ...unknown[]][] }[] = []
+    const sharp = vi.fn((input: unknown) => {
+        const pipeline = { input, calls: [] as [string, ...unknown[]][] }
+        pipelines.push(pipeline)
+        const image: any = {}
+        const methods = ['resize', 'extract', 'grayscale', 'blur', 'composite', 'flatten']
+        for (const method of [...methods, 'png', 'jpeg']) {
+            image[method] = (...args: unknown[]) => {
+                pipeline.calls.push([method, ...args])
+                return image
+            }
+        }
+        image.metadata = async () => ({ width: 400, height: 200 })
+        image.toBuffer = async (options?: { resolveWithObject?: boolean }) => {
+            const data = new TextEncoder().encode('ENCODED')
+            return options?.resolveWithObject ? { data, info: { width: 100, height: 50 } } : data
+        }
+        return image
+    })
+    return { sharp, pipelines }
+}
+
+const BYTES = new Uint8Array([1, 2, 3])
+
+describe('transformImage', () => {
+    it('resizes with a fit and position', async () => {
+        const { sharp, pipelines } = fakeSharp()
+
+        const result = await transformImage(sharp, BYTES, {
+            width: 100,
+            height: 50,
+            fit: 'contain',
+            position: 'top right',
+        })
+
+        const transparent = { r: 0, g: 0, b: 0, alpha: 0 }
+        expect(result.mimeType).toBe('image/png')
+        expect(pipelines[0]!.calls).toEqual([
+            ['resize', 100, 50, { fit: 'contain', position: 'northeast', background: transparent }],
+            ['png'],
+        ])
+    })
+
+    it('crops around a focal point', async () => {
+        const { sharp, pipelines } = fakeSharp()
+
+        // 400×200 scaled to cover 100×100 is 200×100; x = 0.9 keeps the right edge
+        const position = { x: 0.9, y: 0.5 }
+        await transformImage(sharp, BYTES, { width: 100, height: 100, position })
+
+        expect(pipelines[0]!.calls.slice(0, 2)).toEqual([
+            ['resize', 200, 100, { fit: 'fill' }],
+            ['extract', { left: 100, top: 0, width: 100, height: 100 }],
+        ])
+    })
+
+    it('applies filters and a circle mask', async () => {
+        const { sharp, pipelines } = fakeSharp()
+
+        await transformImage(sharp, BYTES, { grayscale: true, blur: 4, shape: 'circle' })
+
+        expect(pipelines[0]!.calls).toEqual([['grayscale'], ['blur', 4], ['png']])
+        const [composite] = pipelines[1]!.calls
+        expect(composite![0]).toBe('composite')
+        const [layer] = composite![1] as { input: Uint8Array; blend: string }[]
+        expect(layer!.blend).toBe('dest-in')
+        expect(new TextDecoder().decode(layer!.input)).toContain(
+            '<rect width="100" height="50" rx="50" ry="25"/>'
+        )
+    })
+
+    it('rounds corners', async () => {
+        const { sharp, pipelines } = fakeSharp()
+
+        await transformImage(sharp, BYTES, { shape: { radius: 12 } })
+
+        const [layer] = pipelines[1]!.calls[0]![1] as { input: Uint8Array }[]
+        expect(new TextDecoder().decode(layer!.input)).toContain(
+            '<rect width="100" height="50" rx="12" ry="12"/>'
+        )
+    })
+
+    it('encodes JPEG with the given quality', async () => {
+        const { sharp, pipelines } = fakeSharp()
+
+        const result = await transformImage(sharp, BYTES, { format: 'jpeg', quality: 60 })
+
+        expect(result.mimeType).toBe('image/jpeg')
+        expect(pipelines[0]!.calls).toEqual([
+            ['flatten', { background: '#ffffff' }],
+            ['jpeg', { quality: 60 }],
+        ])
+    })
+
+    it('refuses a shape with JPEG output', async () => {
+        const { sharp } = fakeSharp()
+
+        await expect(
+            transformImage(sharp, BYTES, { shape: 'circle', format: 'jpeg' })
+        ).rejects.toThrow('needs transparency')
+    })
+})
+
+describe('hasTransforms', () => {
+    it('ignores a format the image already has', () => {
+        expect(hasTransforms({ format: 'png' }, 'image/png')).toBe(false)
+        expect(hasTransforms({ format: 'png' }, 'image/jpeg')).toBe(true)
+        expect(hasTransforms({ width: 10 }, 'image/png')).toBe(true)
+        expect(sharpOnlyOption({ width: 10 }, 'image/png')).toBeUndefined()
+    })
+
+    it('throws for transforms that need sharp when it is missing', async () => {
+        const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+        await expect(fetchImage(png, { width: 10 })).resolves.toMatch(/^data:image\/png;base64,/)
+        await expect(fetchImage(png, { grayscale: true })).rejects.toThrow(
+            'Image option "grayscale" requires the optional "sharp" dependency'
+        )
+    })
+})
@@ -1,8 +1,43 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { fetchImage } from '../src/image'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { once } from 'node:events'
+import { createServer, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { fetchImage, fetchImageInfo, clearImageCache } from '../src/image'
+import { LRUCache } from '../src/cache'
+import { isPrivateAddress } from '../src/fetch-guard'
+import {
+    ImageBlockedError,
+    ImageFetchError,
+    ImageRedirectError,
+    ImageTooLargeError,
+    ImageTypeError,
+} from '../src/errors'
+
+vi.mock('node:dns/promises', () => ({
+    lookup: vi.fn(async (host: string) => {
+        if (host === 'missing.example.com') {
+            throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${host}`), { code: 'ENOTFOUND' })
+        }
+        return host === 'internal.example.com'
+            ? [{ address: '10.0.0.5', family: 4 }]
+            : [{ address: '93.184.216.34', family: 4 }]
+    }),
+}))
+
+// The lookup made when connecting: the name has been rebound to loopback
+vi.mock('node:dns', () => ({
+    lookup: vi.fn((_host: string, _options: unknown, callback: Function) =>
+        callback(null, [{ address: '127.0.0.1', family: 4 }])
+    ),
+}))
 
 describe('fetchImage', () => {
     beforeEach(() => {
+        clearImageCache()
         vi.restoreAllMocks()
     })
 
@@ -23,7 +58,26 @@ describe('fetchImage', () => {
         const result = await fetchImage('https://example.com/image.png')
 
         expect(result).toMatch(/^data:image\/png;base64,/)
-        expect(fetchMock).toHaveBeenCalledWith('https://example.com/image.png')
+        expect(fetchMock).toHaveBeenCalledWith('https://example.com/image.png', {
+            signal: expect.any(AbortSignal),
+        })
+    })
+
+    it('fetches with a custom fetch', async () => {
+        const globalFetch = vi.fn()
+        vi.stubGlobal('fetch', globalFetch)
+        const fetch = vi.fn().mockResolvedValueOnce(
+            new Response(Buffer.from('fake-png-data'), {
+                status: 200,
+                headers: { 'Content-Type': 'image/png' },
+            })
+        )
+
+        const result = await fetchImage('https://example.com/image.png', { fetch })
+
+        expect(result).toMatch(/^data:image\/png;base64,/)
+        expect(fetch.mock.calls[0][0]).toBe('https://example.com/image.png')
+        expect(globalFetch).not.toHaveBeenCalled()
     })
 
     it('infers MIME type from URL extension', async () => {
@@ -39,30 +93,41 @@ describe('fetchImage', () => {
     })
 
     it('infers MIME type from content-type header', async () => {
-        const imageBytes = Buffer.from('fake-webp-data')
+        const imageBytes = Buffer.from('fake-gif-data')
         const fetchMock = vi.fn().mockResolvedValueOnce(
             new Response(imageBytes, {
                 status: 200,
-                headers: { 'Content-Type': 'image/webp; charset=utf-8' },
+                headers: { 'Content-Type': 'image/gif; charset=utf-8' },
             })
         )
         vi.stubGlobal('fetch', fetchMock)
 
         const result = await fetchImage('https://example.com/image')
 
-        expect(result).toMatch(/^data:image\/webp;base64,/)
+        expect(result).toMatch(/^data:image\/gif;base64,/)
     })
 
-    it('defaults to image/png when MIME cannot be inferred', async () => {
-        const imageBytes = Buffer.from('mystery-data')
-        const fetchMock = vi.fn().mockResolvedValueOnce(
-            new Response(imageBytes, { status: 200 })
-        )
+    it('refuses bytes that are not a recognised image', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response(Buffer.from('mystery-data'), { status: 200 }))
+            .mockResolvedValueOnce(
+                new Response('<!doctype html><title>Sign in</title>', {
+                    status: 200,
+                    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+                })
+            )
         vi.stubGlobal('fetch', fetchMock)
 
-        const result = await fetchImage('https://example.com/image')
-
-        expect(result).toMatch(/^data:image\/png;base64,/)
+        await expect(fetchImage('https://example.com/image')).rejects.toMatchObject({
+            name: 'ImageFormatError',
+            mimeType: 'application/octet-stream',
+            message: 'Image "https://example.com/image" is not a recognised image',
+        })
+        await expect(fetchImage('https://example.com/avatar.png')).rejects.toMatchObject({
+            name: 'ImageFormatError',
+            mimeType: 'text/html',
+            message: 'Image "https://example.com/avatar.png" is not a recognised image (text/html)',
+        })
     })
 
     it('throws when fetch fails', async () => {
@@ -103,4 +168,407 @@ describe('fetchImage', () => {
 
         expect(result).toMatch(/^data:image\/gif;base64,/)
     })
+
+    it('times out a hanging download', async () => {
+        const fetchMock = vi.fn().mockImplementationOnce(
+            (_url: string, init: RequestInit) =>
+                new Promise((_, reject) => {
+                    init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+                })
+        )
+        vi.stubGlobal('fetch', fetchMock)
+
+        await expect(
+            fetchImage('https://example.com/slow.png', { timeoutMs: 10 })
+        ).rejects.toMatchObject({ name: 'RenderTimeoutError', phase: 'assets' })
+        expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true)
+    })
+})
+
+describe('image cache', () => {
+    beforeEach(() => {
+        clearImageCache()
+    })
+
+    // A PNG signature and IHDR chunk for a 640×480 image
+    const PNG = new Uint8Array([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52,
+        0, 0, 0x02, 0x80, 0, 0, 0x01, 0xe0, 8, 6, 0, 0, 0,
+    ])
+    const server = () =>
+        vi.fn(async () => {
+            // Yield so concurrent callers overlap
+            await new Promise((resolve) => setTimeout(resolve, 5))
+            return new Response(PNG, { status: 200, headers: { 'Content-Type': 'image/png' } })
+        })
+
+    it('downloads each image once', async () => {
+        const fetch = server()
+
+        const first = await fetchImage('https://example.com/logo.png', { fetch })
+        const second = await fetchImage('https://example.com/logo.png', { fetch })
+        await fetchImage('https://example.com/logo.png', { fetch, width: 64 })
+
+        expect(second).toBe(first)
+        expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('shares one download between concurrent calls', async () => {
+        const fetch = server()
+
+        const images = await Promise.all(
+            Array.from({ length: 5 }, () => fetchImage('https://example.com/logo.png', { fetch }))
+        )
+
+        expect(new Set(images).size).toBe(1)
+        expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the download going while another caller still waits', async () => {
+        const fetch = server()
+        const controller = new AbortController()
+
+        const cancelled = fetchImage('https://example.com/logo.png', {
+            fetch,
+            signal: controller.signal,
+        })
+        const waiting = fetchImage('https://example.com/logo.png', { fetch })
+        controller.abort()
+
+        await expect(cancelled).rejects.toMatchObject({ name: 'RenderAbortError' })
+        await expect(waiting).resolves.toMatch(/^data:image\/png;base64,/)
+        expect(fetch.mock.calls[0][1].signal.aborted).toBe(false)
+    })
+
+    it('uses a custom cache, or none', async () => {
+        const fetch = server()
+        const cache = new LRUCache<string, any>({ maxSize: 10 })
+
+        await fetchImage('https://example.com/logo.png', { fetch, cache })
+        expect(cache.size).toBe(1)
+
+        await fetchImage('https://example.com/logo.png', { fetch, cache: false })
+        await fetchImage('https://example.com/logo.png', { fetch, cache: false })
+        expect(fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('does not cache failures', async () => {
+        const fetch = vi.fn()
+            .mockResolvedValueOnce(new Response('', { status: 500, statusText: 'Server Error' }))
+            .mockResolvedValueOnce(new Response(PNG, { status: 200 }))
+
+        await expect(fetchImage('https://example.com/logo.png', { fetch })).rejects.toThrow(
+            '500 Server Error'
+        )
+        await expect(fetchImage('https://example.com/logo.png', { fetch })).resolves.toMatch(
+            /^data:image\/png;base64,/
+        )
+    })
+
+    it('returns the intrinsic size with fetchImageInfo', async () => {
+        const fetch = server()
+
+        await expect(fetchImageInfo('https://example.com/logo.png', { fetch })).resolves.toEqual({
+            src: expect.stringMatching(/^data:image\/png;base64,/),
+            mimeType: 'image/png',
+            width: 640,
+            height: 480,
+        })
+    })
+
+    it('throws from fetchImageInfo when the size is unreadable', async () => {
+        const fetch = vi.fn().mockResolvedValue(
+            new Response('not-an-image', { status: 200, headers: { 'Content-Type': 'image/png' } })
+        )
+
+        await expect(fetchImageInfo('https://example.com/a.png', { fetch })).rejects.toThrow(
+            'Could not read the size of image "https://example.com/a.png" (image/png)'
+        )
+    })
+})
+
+describe('image sources', () => {
+    // A PNG signature and IHDR chunk for a 640×480 image
+    const PNG = new Uint8Array([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52,
+        0, 0, 0x02, 0x80, 0, 0, 0x01, 0xe0, 8, 6, 0, 0, 0,
+    ])
+    const PNG_URI = `data:image/png;base64,${Buffer.from(PNG).toString('base64')}`
+    let dir: string
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'og-images-'))
+    })
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true })
+    })
+
+    it('reads file: URLs, sniffing the type', async () => {
+        // The extension is wrong on purpose
+        const file = join(dir, 'logo.jpg')
+        await writeFile(file, PNG)
+        const fetch = vi.fn()
+
+        await expect(fetchImage(pathToFileURL(file).href, { fetch })).resolves.toBe(PNG_URI)
+        await expect(fetchImageInfo(pathToFileURL(file), { fetch })).resolves.toEqual({
+            src: PNG_URI,
+            mimeType: 'image/png',
+            width: 640,
+            height: 480,
+        })
+        await expect(fetchImage(pathToFileURL(join(dir, 'missing.png')))).rejects.toThrow(
+            `Image not found at "${join(dir, 'missing.png')}"`
+        )
+        expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('refuses strings that are not http, data: or file: URLs', async () => {
+        const file = join(dir, 'logo.png')
+        await writeFile(file, PNG)
+        const fetch = vi.fn()
+
+        for (const source of [file, 'logo.png', '../x.svg', 'ftp://example.com/a.png']) {
+            await expect(fetchImage(source, { fetch })).rejects.toMatchObject({
+                name: 'ImageBlockedError',
+                reason: 'protocol',
+            })
+        }
+        expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('accepts bytes, Blobs and data-URIs', async () => {
+        await expect(fetchImage(PNG)).resolves.toBe(PNG_URI)
+        await expect(fetchImage(PNG.buffer)).resolves.toBe(PNG_URI)
+        await expect(fetchImage(new Blob([PNG]))).resolves.toBe(PNG_URI)
+        await expect(fetchImage(PNG_URI)).resolves.toBe(PNG_URI)
+
+        const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="20"/>'
+        await expect(
+            fetchImageInfo(`data:image/svg+xml,${encodeURIComponent(svg)}`)
+        ).resolves.toMatchObject({ mimeType: 'image/svg+xml', width: 10, height: 20 })
+    })
+
+    it('falls back to the declared type when sniffing fails', async () => {
+        const data = new TextEncoder().encode('unknown')
+        await expect(fetchImage(new Blob([data], { type: 'image/bmp' }))).resolves.toMatch(
+            /^data:image\/bmp;base64,/
+        )
+    })
+
+    it('applies maxBytes and allowedTypes to local sources', async () => {
+        await expect(fetchImage(PNG, { maxBytes: 10 })).rejects.toBeInstanceOf(ImageTooLargeError)
+        await expect(fetchImage(PNG, { allowedTypes: ['image/jpeg'] })).rejects.toBeInstanceOf(
+            ImageTypeError
+        )
+    })
+
+    it('refuses file: URLs when fetch guards are set', async () => {
+        const file = join(dir, 'logo.png')
+        await writeFile(file, PNG)
+
+        await expect(
+            fetchImage(pathToFileURL(file), { allowedHosts: ['example.com'] })
+        ).rejects.toMatchObject({ name: 'ImageBlockedError', reason: 'protocol' })
+        await expect(
+            fetchImage(PNG_URI, { allowedHosts: ['example.com'] })
+        ).resolves.toBe(PNG_URI)
+    })
+})
+
+describe('fetchImage guards', () => {
+    beforeEach(() => {
+        clearImageCache()
+    })
+
+    const png = () =>
+        new Response(Buffer.from('fake-png-data'), {
+            status: 200,
+            headers: { 'Content-Type': 'image/png' },
+        })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('only fetches allowed hosts', async () => {
+        const fetch = vi.fn().mockImplementation(async () => png())
+        const allowedHosts = ['cdn.example.com', '*.githubusercontent.com']
+
+        await fetchImage('https://cdn.example.com/a.png', { allowedHosts, fetch })
+        await fetchImage('https://avatars.githubusercontent.com/u/1', { allowedHosts, fetch })
+        await expect(
+            fetchImage('https://evil.example.net/a.png', { allowedHosts, fetch })
+        ).rejects.toMatchObject({ name: 'ImageBlockedError', reason: 'host' })
+        expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('refuses denied hosts and non-http URLs', async () => {
+        const fetch = vi.fn()
+
+        await expect(
+            fetchImage('https://tracker.example.com/a.png', {
+                deniedHosts: [/^tracker\./],
+                fetch,
+            })
+        ).rejects.toBeInstanceOf(ImageBlockedError)
+        await expect(
+            fetchImage('file:///etc/passwd', { deniedHosts: [], fetch })
+        ).rejects.toMatchObject({ reason: 'protocol' })
+        expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('blocks private, loopback and link-local addresses', async () => {
+        const fetch = vi.fn().mockImplementation(async () => png())
+        const options = { blockPrivateAddresses: true, fetch }
+
+        for (const url of [
+            'http://169.254.169.254/latest/meta-data/',
+            'http://127.0.0.1:8080/a.png',
+            'http://2130706433/a.png',
+            'http://[::1]/a.png',
+            'http://[::ffff:10.0.0.1]/a.png',
+            'http://localhost/a.png',
+            'http://internal.example.com/a.png',
+        ]) {
+            await expect(fetchImage(url, options)).rejects.toMatchObject({
+                name: 'ImageBlockedError',
+                reason: 'private-address',
+            })
+        }
+        expect(fetch).not.toHaveBeenCalled()
+
+        await fetchImage('https://example.com/a.png', options)
+        expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('refuses hostnames that re-resolve to a private address when connecting', async () => {
+        const requests = vi.fn((_request: unknown, response: ServerResponse) => response.end())
+        const server = createServer(requests).listen(0, '127.0.0.1')
+        await once(server, 'listening')
+        const { port } = server.address() as AddressInfo
+
+        try {
+            await expect(
+                fetchImage(`http://rebind.example.com:${port}/a.png`, {
+                    blockPrivateAddresses: true,
+                })
+            ).rejects.toMatchObject({
+                name: 'ImageBlockedError',
+                reason: 'private-address',
+                message: expect.stringContaining('(127.0.0.1)'),
+            })
+            expect(requests).not.toHaveBeenCalled()
+        } finally {
+            server.close()
+        }
+    })
+
+    it('wraps DNS failures in an ImageFetchError', async () => {
+        const fetch = vi.fn()
+
+        const error = await fetchImage('https://missing.example.com/a.png', {
+            blockPrivateAddresses: true,
+            fetch,
+        }).catch((e) => e)
+
+        expect(error).toBeInstanceOf(ImageFetchError)
+        expect(error.message).toBe(
+            'Failed to resolve "missing.example.com" for image "https://missing.example.com/a.png" (ENOTFOUND)'
+        )
+        expect(error.cause).toMatchObject({ code: 'ENOTFOUND' })
+        expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('checks every redirect and limits how many are followed', async () => {
+        const redirect = (location: string) =>
+            new Response(null, { status: 302, headers: { Location: location } })
+        const fetch = vi.fn()
+            .mockResolvedValueOnce(redirect('/b.png'))
+            .mockResolvedValueOnce(png())
+
+        await fetchImage('https://example.com/a.png', { maxRedirects: 1, fetch })
+        expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+            'https://example.com/a.png',
+            'https://example.com/b.png',
+        ])
+        expect(fetch.mock.calls[0][1].redirect).toBe('manual')
+
+        fetch.mockReset().mockResolvedValueOnce(redirect('http://169.254.169.254/'))
+        await expect(
+            fetchImage('https://example.com/a.png', { blockPrivateAddresses: true, fetch })
+        ).rejects.toMatchObject({ reason: 'private-address', url: 'http://169.254.169.254/' })
+
+        fetch.mockReset().mockImplementation(async () => redirect('/loop.png'))
+        await expect(
+            fetchImage('https://example.com/a.png', { maxRedirects: 2, fetch })
+        ).rejects.toBeInstanceOf(ImageRedirectError)
+        expect(fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('enforces maxBytes from Content-Length and while streaming', async () => {
+        const declared = vi.fn().mockResolvedValue(
+            new Response('x'.repeat(100), { status: 200, headers: { 'Content-Length': '100' } })
+        )
+        await expect(
+            fetchImage('https://example.com/a.png', { maxBytes: 10, fetch: declared })
+        ).rejects.toMatchObject({ name: 'ImageTooLargeError', maxBytes: 10 })
+
+        const cancel = vi.fn()
+        const stream = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                controller.enqueue(new Uint8Array(8))
+            },
+            cancel,
+        })
+        const streamed = vi.fn().mockResolvedValue(new Response(stream, { status: 200 }))
+        await expect(
+            fetchImage('https://example.com/a.png', { maxBytes: 20, fetch: streamed })
+        ).rejects.toBeInstanceOf(ImageTooLargeError)
+        expect(cancel).toHaveBeenCalled()
+
+        const small = vi.fn().mockImplementation(async () => png())
+        await expect(
+            fetchImage('https://example.com/a.png', { maxBytes: 100, fetch: small })
+        ).resolves.toMatch(/^data:image\/png;base64,/)
+    })
+
+    it('only accepts allowed MIME types', async () => {
+        const html = vi.fn().mockResolvedValue(
+            new Response('<html>', { status: 200, headers: { 'Content-Type': 'text/html' } })
+        )
+        await expect(
+            fetchImage('https://example.com/a.png', { allowedTypes: ['image/*'], fetch: html })
+        ).rejects.toMatchObject({ name: 'ImageTypeError', mimeType: 'text/html' })
+
+        const fetch = vi.fn().mockImplementation(async () => png())
+        await expect(
+            fetchImage('https://example.com/a', { allowedTypes: ['image/jpeg'], fetch })
+        ).rejects.toBeInstanceOf(ImageTypeError)
+        await expect(
+            fetchImage('https://example.com/a', { allowedTypes: ['image/png'], fetch })
+        ).resolves.toMatch(/^data:image\/png;base64,/)
+    })
+})
+
+describe('isPrivateAddress', () => {
+    it('classifies IPv4 and IPv6 addresses', () => {
+        const blocked = [
+            '10.1.2.3',
+            '172.31.0.1',
+            '192.168.1.1',
+            '100.64.0.1',
+            '0.0.0.0',
+            '224.0.0.1',
+            '::',
+            'fd00::1',
+            'fe80::1',
+            '::ffff:127.0.0.1',
+            '64:ff9b::a9fe:a9fe',
+        ]
+        const allowed = ['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8', 'example.com']
+
+        expect(blocked.filter((address) => !isPrivateAddress(address))).toEqual([])
+        expect(allowed.filter(isPrivateAddress)).toEqual([])
+    })
 })
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { RenderQueue } from '../src/queue'
+import { RenderQueueFullError } from '../src/errors'
+
+/** A task that resolves when `release` is called. */
+function deferred() {
+    let release!: () => void
+    const promise = new Promise<void>((resolve) => {
+        release = resolve
+    })
+    return { promise, release, task: () => promise }
+}
+
+describe('RenderQueue', () => {
+    it('runs tasks immediately when unbounded', async () => {
+        const queue = new RenderQueue()
+
+        await expect(queue.run(async () => 'done')).resolves.toBe('done')
+        expect(queue.active).toBe(0)
+        expect(queue.pending).toBe(0)
+    })
+
+    it('limits concurrent tasks and queues the rest in order', async () => {
+        const queue = new RenderQueue({ maxConcurrentRenders: 1 })
+        const first = deferred()
+        const order: string[] = []
+
+        const a = queue.run(async () => {
+            order.push('a')
+            await first.promise
+        })
+        const b = queue.run(async () => {
+            order.push('b')
+        })
+        const c = queue.run(async () => {
+            order.push('c')
+        })
+
+        expect(queue.active).toBe(1)
+        expect(queue.pending).toBe(2)
+
+        first.release()
+        await Promise.all([a, b, c])
+
+        expect(order).toEqual(['a', 'b', 'c'])
+        expect(queue.active).toBe(0)
+        expect(queue.pending).toBe(0)
+    })
+
+    it('frees the slot when a task fails', async () => {
+        const queue = new RenderQueue({ maxConcurrentRenders: 1 })
+
+        await expect(
+            queue.run(async () => {
+                throw new Error('boom')
+            })
+        ).rejects.toThrow('boom')
+        await expect(queue.run(async () => 'next')).resolves.toBe('next')
+    })
+
+    it('rejects with RenderQueueFullError once maxQueue is reached', async () => {
+        const queue = new RenderQueue({ maxConcurrentRenders: 1, maxQueue: 1, retryAfter: 10 })
+        const running = deferred()
+
+        const a = queue.run(running.task)
+        const b = queue.run(async () => 'b')
+        const error = await queue.run(async () => 'c').catch((e) => e)
+
+        expect(error).toBeInstanceOf(RenderQueueFullError)
+        expect(error.retryAfter).toBe(10)
+
+        running.release()
+        await expect(Promise.all([a, b])).resolves.toEqual([undefined, 'b'])
+    })
+
+    it('removes a waiting task when its signal aborts', async () => {
+        const queue = new RenderQueue({ maxConcurrentRenders: 1 })
+        const running = deferred()
+        const controller = new AbortController()
+
+        const a = queue.run(running.task)
+        const b = queue.run(async () => 'b', controller.signal)
+        expect(queue.pending).toBe(1)
+
+        controller.abort('gone')
+        await expect(b).rejects.toBe('gone')
+        expect(queue.pending).toBe(0)
+
+        running.release()
+        await a
+    })
+
+    it('starts waiting tasks when the limit is raised', async () => {
+        const queue = new RenderQueue({ maxConcurrentRenders: 1 })
+        const running = deferred()
+
+        const a = queue.run(running.task)
+        const b = queue.run(async () => 'b')
+        queue.configure({ maxConcurrentRenders: 2 })
+
+        await expect(b).resolves.toBe('b')
+        running.release()
+        await a
+    })
+})
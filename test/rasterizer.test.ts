@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+    resolveRasterizer,
+    createResvgJsRasterizer,
+    createSharpRasterizer,
+} from '../src/rasterizer'
+
+vi.mock('../src/image', () => ({
+    tryImportSharp: vi.fn().mockResolvedValue(null),
+}))
+
+const SVG =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="10"><rect width="20" height="10" fill="red"/></svg>'
+
+describe('resolveRasterizer', () => {
+    it('defaults to resvg-wasm', () => {
+        expect(resolveRasterizer().name).toBe('resvg-wasm')
+    })
+
+    it('resolves built-in names to a shared instance', () => {
+        const first = resolveRasterizer('resvg-js')
+        expect(first.name).toBe('resvg-js')
+        expect(resolveRasterizer('resvg-js')).toBe(first)
+    })
+
+    it('returns custom rasterizers as-is', () => {
+        const custom = { name: 'custom', render: vi.fn() }
+        expect(resolveRasterizer(custom)).toBe(custom)
+    })
+
+    it('throws for unknown renderer names', () => {
+        expect(() => resolveRasterizer('canvas' as any)).toThrow('Unknown renderer "canvas"')
+    })
+})
+
+describe('createResvgJsRasterizer', () => {
+    it('renders PNG bytes at the requested width', async () => {
+        const png = await createResvgJsRasterizer().render(SVG, { width: 40, scale: 2 })
+
+        expect(png).toBeInstanceOf(Uint8Array)
+        expect(Array.from(png.subarray(0, 4))).toEqual([137, 80, 78, 71])
+        // IHDR width is a big-endian uint32 at byte 16
+        expect(new DataView(png.buffer, png.byteOffset).getUint32(16)).toBe(40)
+    })
+})
+
+describe('createSharpRasterizer', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('renders with a density matching the scale', async () => {
+        const { tryImportSharp } = await import('../src/image')
+        const pipeline = {
+            resize: vi.fn().mockReturnThis(),
+            png: vi.fn().mockReturnThis(),
+            toBuffer: vi.fn().mockResolvedValue(Buffer.from([137, 80, 78, 71])),
+        }
+        const sharp = vi.fn().mockReturnValue(pipeline)
+        vi.mocked(tryImportSharp).mockResolvedValueOnce({ default: sharp })
+
+        const png = await createSharpRasterizer().render(SVG, { width: 60, scale: 3 })
+
+        expect(sharp).toHaveBeenCalledWith(expect.any(Uint8Array), { density: 216 })
+        expect(pipeline.resize).toHaveBeenCalledWith(60)
+        expect(Array.from(png)).toEqual([137, 80, 78, 71])
+    })
+
+    it('throws a clear error when sharp is not installed', async () => {
+        await expect(
+            createSharpRasterizer().render(SVG, { width: 20, scale: 1 })
+        ).rejects.toThrow('requires the optional "sharp" dependency')
+    })
+})
@@ -0,0 +1,698 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import React from 'react'
+
+vi.mock('satori', () => ({
+    default: vi.fn().mockResolvedValue('<svg>mock</svg>'),
+}))
+
+vi.mock('@resvg/resvg-wasm', () => {
+    return {
+        initWasm: vi.fn(),
+        Resvg: vi.fn().mockImplementation(() => ({
+            render: vi.fn().mockReturnValue({
+                asPng: vi.fn().mockReturnValue(new Uint8Array([137, 80, 78, 71])),
+            }),
+        })),
+    }
+})
+
+vi.mock('../src/resvg-wasm', () => ({
+    resvgWasm: 'AGFzbQ==',
+}))
+
+vi.mock('../src/font', () => ({
+    loadGoogleFont: vi.fn().mockResolvedValue({
+        name: 'Inter',
+        data: new ArrayBuffer(100),
+        weight: 700,
+        style: 'normal',
+    }),
+    resolveFont: vi.fn().mockImplementation(async (font: any) => ({
+        name: font.name,
+        data: font.data ?? new ArrayBuffer(100),
+        weight: font.weight ?? 400,
+        style: font.style ?? 'normal',
+    })),
+    clearFontCache: vi.fn(),
+    isFontCached: vi.fn().mockReturnValue(false),
+}))
+
+vi.mock('../src/coverage', () => ({
+    analyzeCoverage: vi.fn().mockReturnValue({ missing: [], nodes: [] }),
+}))
+
+vi.mock('../src/image', () => ({
+    tryImportSharp: vi.fn().mockResolvedValue(null),
+}))
+
+describe('renderToSvg', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('returns the satori SVG string', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { Resvg } = await import('@resvg/resvg-wasm')
+
+        const svg = await renderToSvg(React.createElement('div', null, 'Test'))
+
+        expect(svg).toBe('<svg>mock</svg>')
+        expect(Resvg).not.toHaveBeenCalled()
+    })
+
+    it('passes dimensions and resolved fonts to satori', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const satori = (await import('satori')).default
+
+        await renderToSvg(React.createElement('div', null, 'Test'), {
+            width: 600,
+            height: 315,
+            fonts: [{ name: 'Roboto', data: new ArrayBuffer(10) }],
+        })
+
+        expect(satori).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.objectContaining({
+                width: 600,
+                height: 315,
+                fonts: [expect.objectContaining({ name: 'Roboto', weight: 400, style: 'normal' })],
+            })
+        )
+    })
+})
+
+describe('renderToPng', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('returns PNG bytes as a Uint8Array', async () => {
+        const { renderToPng } = await import('../src/render')
+
+        const png = await renderToPng(React.createElement('div', null, 'Test'))
+
+        expect(png).toBeInstanceOf(Uint8Array)
+        expect(Array.from(png)).toEqual([137, 80, 78, 71])
+    })
+
+    it('rasterizes at the requested width', async () => {
+        const { renderToPng } = await import('../src/render')
+        const { Resvg } = await import('@resvg/resvg-wasm')
+
+        await renderToPng(React.createElement('div', null, 'Test'), { width: 800 })
+
+        expect(Resvg).toHaveBeenCalledWith('<svg>mock</svg>', {
+            fitTo: { mode: 'width', value: 800 },
+        })
+    })
+
+    it('lays out at the base size but rasterizes at width * scale', async () => {
+        const { renderToPng } = await import('../src/render')
+        const satori = (await import('satori')).default
+        const { Resvg } = await import('@resvg/resvg-wasm')
+
+        await renderToPng(React.createElement('div', null, 'Test'), { scale: 2 })
+
+        expect(satori).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.objectContaining({ width: 1200, height: 630 })
+        )
+        expect(Resvg).toHaveBeenCalledWith('<svg>mock</svg>', {
+            fitTo: { mode: 'width', value: 2400 },
+        })
+    })
+
+    it('uses a custom renderer instead of resvg-wasm', async () => {
+        const { renderToPng } = await import('../src/render')
+        const { Resvg } = await import('@resvg/resvg-wasm')
+        const renderer = {
+            name: 'custom',
+            render: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3])),
+        }
+
+        const png = await renderToPng(React.createElement('div', null, 'Test'), {
+            renderer,
+            scale: 2,
+        })
+
+        expect(Array.from(png)).toEqual([1, 2, 3])
+        expect(renderer.render).toHaveBeenCalledWith('<svg>mock</svg>', {
+            width: 2400,
+            scale: 2,
+        })
+        expect(Resvg).not.toHaveBeenCalled()
+    })
+
+    it('rejects a non-positive scale', async () => {
+        const { renderToPng } = await import('../src/render')
+
+        await expect(
+            renderToPng(React.createElement('div', null, 'Test'), { scale: 0 })
+        ).rejects.toThrow('Invalid scale')
+    })
+})
+
+describe('renderImage', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('defaults to PNG', async () => {
+        const { renderImage } = await import('../src/render')
+
+        const result = await renderImage(React.createElement('div', null, 'Test'))
+
+        expect(result.format).toBe('png')
+        expect(result.contentType).toBe('image/png')
+        expect(result.data[0]).toBe(137)
+    })
+
+    it('encodes the SVG as UTF-8 bytes for format "svg"', async () => {
+        const { renderImage } = await import('../src/render')
+
+        const result = await renderImage(React.createElement('div', null, 'Test'), {
+            format: 'svg',
+        })
+
+        expect(result.contentType).toBe('image/svg+xml')
+        expect(new TextDecoder().decode(result.data)).toBe('<svg>mock</svg>')
+    })
+})
+
+describe('render cancellation', () => {
+    const never = () => new Promise<never>(() => {})
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('times out during font loading', async () => {
+        const { renderToPng } = await import('../src/render')
+        const { RenderTimeoutError } = await import('../src/errors')
+        const { loadGoogleFont } = await import('../src/font')
+        vi.mocked(loadGoogleFont).mockImplementationOnce(never)
+
+        const error = await renderToPng(React.createElement('div', null, 'Test'), {
+            timeoutMs: 10,
+        }).catch((e) => e)
+
+        expect(error).toBeInstanceOf(RenderTimeoutError)
+        expect(error.phase).toBe('fonts')
+        expect(error.timeoutMs).toBe(10)
+        expect(error.message).toBe('Render timed out after 10ms during fonts')
+        expect(vi.mocked(loadGoogleFont).mock.calls[0][1]?.signal?.aborted).toBe(true)
+    })
+
+    it('times out during layout', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const satori = (await import('satori')).default
+        vi.mocked(satori).mockImplementationOnce(never)
+
+        await expect(
+            renderToSvg(React.createElement('div', null, 'Test'), { timeoutMs: 10 })
+        ).rejects.toMatchObject({ name: 'RenderTimeoutError', phase: 'layout' })
+    })
+
+    it('reports the assets phase and cancels a hanging emoji fetch', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const satori = (await import('satori')).default
+        const fetchMock = vi.fn().mockImplementation(never)
+        vi.stubGlobal('fetch', fetchMock)
+        vi.mocked(satori).mockImplementationOnce(async (_element, options: any) => {
+            await options.loadAdditionalAsset('emoji', '👋')
+            return '<svg/>'
+        })
+
+        await expect(
+            renderToSvg(React.createElement('div', null, '👋'), {
+                emoji: 'twemoji',
+                timeoutMs: 10,
+            })
+        ).rejects.toMatchObject({ name: 'RenderTimeoutError', phase: 'assets' })
+        expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true)
+    })
+
+    it('times out during rasterization with a custom renderer', async () => {
+        const { renderToPng } = await import('../src/render')
+        const renderer = { name: 'slow', render: vi.fn().mockImplementation(never) }
+
+        await expect(
+            renderToPng(React.createElement('div', null, 'Test'), {
+                renderer,
+                timeoutMs: 10,
+            })
+        ).rejects.toMatchObject({ name: 'RenderTimeoutError', phase: 'rasterize' })
+        expect(renderer.render.mock.calls[0][1].signal.aborted).toBe(true)
+    })
+
+    it('rejects with a RenderAbortError when the signal fires', async () => {
+        const { renderImage } = await import('../src/render')
+        const { RenderAbortError } = await import('../src/errors')
+        const satori = (await import('satori')).default
+        const controller = new AbortController()
+        vi.mocked(satori).mockImplementationOnce(() => {
+            controller.abort('client went away')
+            return never()
+        })
+
+        const error = await renderImage(React.createElement('div', null, 'Test'), {
+            signal: controller.signal,
+        }).catch((e) => e)
+
+        expect(error).toBeInstanceOf(RenderAbortError)
+        expect(error.phase).toBe('layout')
+        expect(error.cause).toBe('client went away')
+    })
+
+    it('rejects immediately for an already-aborted signal', async () => {
+        const { renderImage } = await import('../src/render')
+        const { loadGoogleFont } = await import('../src/font')
+
+        await expect(
+            renderImage(React.createElement('div', null, 'Test'), {
+                signal: AbortSignal.abort(),
+            })
+        ).rejects.toMatchObject({ name: 'RenderAbortError', phase: 'queue' })
+        expect(loadGoogleFont).not.toHaveBeenCalled()
+    })
+})
+
+describe('onMetrics', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('reports per-phase durations, output size and format', async () => {
+        const { renderImage } = await import('../src/render')
+        const onMetrics = vi.fn()
+
+        const result = await renderImage(React.createElement('div', null, 'Test'), {
+            onMetrics,
+        })
+
+        expect(onMetrics).toHaveBeenCalledTimes(1)
+        const metrics = onMetrics.mock.calls[0][0]
+        expect(metrics.format).toBe('png')
+        expect(metrics.bytes).toBe(result.data.byteLength)
+        expect(Object.keys(metrics.durations).sort()).toEqual(
+            ['fonts', 'layout', 'queue', 'rasterize', 'total']
+        )
+        for (const ms of Object.values(metrics.durations)) {
+            expect(ms).toBeGreaterThanOrEqual(0)
+        }
+    })
+
+    it('counts font cache hits and misses, skipping inline data', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { isFontCached } = await import('../src/font')
+        vi.mocked(isFontCached).mockReturnValueOnce(true).mockReturnValueOnce(false)
+        const onMetrics = vi.fn()
+
+        const svg = await renderToSvg(React.createElement('div', null, 'Test'), {
+            fonts: [
+                { name: 'Inter', weight: 400 },
+                { name: 'Inter', weight: 700 },
+                { name: 'Local', data: new ArrayBuffer(8) },
+            ],
+            onMetrics,
+        })
+
+        expect(onMetrics).toHaveBeenCalledWith(
+            expect.objectContaining({
+                fontCacheHits: 1,
+                fontCacheMisses: 1,
+                format: 'svg',
+                bytes: svg.length,
+            })
+        )
+    })
+
+    it('is not called when the render fails', async () => {
+        const { renderImage } = await import('../src/render')
+        const satori = (await import('satori')).default
+        vi.mocked(satori).mockRejectedValueOnce(new Error('layout failed'))
+        const onMetrics = vi.fn()
+
+        await expect(
+            renderImage(React.createElement('div', null, 'Test'), { onMetrics })
+        ).rejects.toThrow('layout failed')
+        expect(onMetrics).not.toHaveBeenCalled()
+    })
+})
+
+describe('subsetFonts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('subsets the default font to the characters in the element', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { loadGoogleFont, isFontCached } = await import('../src/font')
+        const element = React.createElement(
+            'div',
+            null,
+            React.createElement('h1', null, 'Hello'),
+            React.createElement('p', null, 'world')
+        )
+
+        await renderToSvg(element, { subsetFonts: true })
+
+        expect(loadGoogleFont).toHaveBeenCalledWith(
+            'Inter',
+            expect.objectContaining({ weight: 700, text: 'Helowrd' })
+        )
+        expect(isFontCached).toHaveBeenCalledWith(
+            expect.objectContaining({ name: 'Inter' }),
+            expect.objectContaining({ text: 'Helowrd' })
+        )
+    })
+
+    it('passes the text to each configured font', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { resolveFont } = await import('../src/font')
+
+        await renderToSvg(React.createElement('div', null, 'Hi'), {
+            fonts: [{ name: 'Roboto', weight: 400 }],
+            subsetFonts: true,
+        })
+
+        expect(resolveFont).toHaveBeenCalledWith(
+            { name: 'Roboto', weight: 400 },
+            expect.objectContaining({ text: 'Hi' })
+        )
+    })
+
+    it('loads full fonts by default', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { loadGoogleFont } = await import('../src/font')
+
+        await renderToSvg(React.createElement('div', null, 'Hi'))
+
+        expect(vi.mocked(loadGoogleFont).mock.calls[0][1]?.text).toBeUndefined()
+    })
+})
+
+describe('registered fonts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('uses a registered Inter 700 instead of fetching the default font', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { FontRegistry } = await import('../src/font-registry')
+        const { loadGoogleFont } = await import('../src/font')
+        const satori = (await import('satori')).default
+        const registry = new FontRegistry()
+        const data = new Uint8Array([0, 1, 0, 0])
+        await registry.register({ data, name: 'Inter', weight: 700 })
+
+        await renderToSvg(React.createElement('div', null, 'Test'), {
+            fontRegistry: registry,
+            offline: true,
+        })
+
+        expect(loadGoogleFont).not.toHaveBeenCalled()
+        expect(satori).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.objectContaining({
+                fonts: [expect.objectContaining({ name: 'Inter', weight: 700 })],
+            })
+        )
+    })
+
+    it('fails offline when the default font is not registered', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { FontRegistry } = await import('../src/font-registry')
+        const { loadGoogleFont } = await import('../src/font')
+
+        await expect(
+            renderToSvg(React.createElement('div', null, 'Test'), {
+                fontRegistry: new FontRegistry(),
+                offline: true,
+            })
+        ).rejects.toThrow('offline mode forbids fetching it')
+        expect(loadGoogleFont).not.toHaveBeenCalled()
+    })
+})
+
+describe('fallbackFonts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    /** Render with `options` and return satori's `loadAdditionalAsset`. */
+    async function getAssetLoader(options: Record<string, unknown>) {
+        const { renderToSvg } = await import('../src/render')
+        const satori = (await import('satori')).default
+        await renderToSvg(React.createElement('div', null, 'Test'), options)
+        return (vi.mocked(satori).mock.calls[0][1] as any).loadAdditionalAsset
+    }
+
+    it('loads a subsetted Noto font for each weight the main fonts use', async () => {
+        const { resolveFont } = await import('../src/font')
+        const loadAdditionalAsset = await getAssetLoader({
+            fonts: [
+                { name: 'Roboto', data: new ArrayBuffer(1), weight: 400 },
+                { name: 'Roboto', data: new ArrayBuffer(1), weight: 700 },
+            ],
+            fallbackFonts: true,
+        })
+        vi.mocked(resolveFont).mockClear()
+
+        const fonts = await loadAdditionalAsset('ja-JP', 'こんにちは')
+
+        expect(fonts.map((f: any) => [f.name, f.weight])).toEqual([
+            ['Noto Sans JP', 400],
+            ['Noto Sans JP', 700],
+        ])
+        expect(resolveFont).toHaveBeenCalledWith(
+            { name: 'Noto Sans JP', weight: 700 },
+            expect.objectContaining({ text: 'こんにちは' })
+        )
+    })
+
+    it('falls back to weight 400 when a family lacks the weight', async () => {
+        const { resolveFont } = await import('../src/font')
+        const loadAdditionalAsset = await getAssetLoader({ fallbackFonts: true })
+        vi.mocked(resolveFont).mockRejectedValueOnce(new Error('400 Bad Request'))
+
+        const fonts = await loadAdditionalAsset('math', '∑')
+
+        expect(fonts).toEqual([
+            expect.objectContaining({ name: 'Noto Sans Math', weight: 400 }),
+        ])
+    })
+
+    it('uses a custom map, matching bare language codes', async () => {
+        const brand = { name: 'Brand JP', data: new ArrayBuffer(1), weight: 500 as const }
+        const loadAdditionalAsset = await getAssetLoader({
+            fallbackFonts: { ja: brand, 'ko-KR': 'Nanum Gothic' },
+        })
+
+        await expect(loadAdditionalAsset('ja-JP', 'あ')).resolves.toEqual([
+            expect.objectContaining({ name: 'Brand JP', weight: 500 }),
+        ])
+        await expect(loadAdditionalAsset('ko-KR', '한')).resolves.toEqual([
+            expect.objectContaining({ name: 'Nanum Gothic', weight: 700 }),
+        ])
+        await expect(loadAdditionalAsset('th-TH', 'ก')).resolves.toBe('')
+    })
+
+    it('is not wired up by default', async () => {
+        const loadAdditionalAsset = await getAssetLoader({})
+
+        expect(loadAdditionalAsset).toBeUndefined()
+    })
+})
+
+describe('onMissingGlyphs', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('reports characters no font covers after layout', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { analyzeCoverage } = await import('../src/coverage')
+        const report = {
+            missing: ['あ'],
+            nodes: [{ text: 'あ', font: undefined, missing: ['あ'] }],
+        }
+        vi.mocked(analyzeCoverage).mockReturnValueOnce(report)
+        const onMissingGlyphs = vi.fn()
+
+        await renderToSvg(React.createElement('div', { style: { fontWeight: 700 } }, 'あ'), {
+            fonts: [{ name: 'Roboto', data: new ArrayBuffer(1) }],
+            onMissingGlyphs,
+        })
+
+        expect(onMissingGlyphs).toHaveBeenCalledWith(report)
+        expect(analyzeCoverage).toHaveBeenCalledWith(
+            [{ text: 'あ', fontWeight: 700, fontFamily: undefined, fontStyle: undefined }],
+            [expect.objectContaining({ name: 'Roboto' })],
+            undefined
+        )
+    })
+
+    it('includes loaded fallback fonts and ignores emoji when emoji is set', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { analyzeCoverage } = await import('../src/coverage')
+        const satori = (await import('satori')).default
+        vi.mocked(satori).mockImplementationOnce(async (_element, options: any) => {
+            await options.loadAdditionalAsset('ja-JP', 'あ')
+            return '<svg>mock</svg>'
+        })
+
+        await renderToSvg(React.createElement('div', null, 'あ😀'), {
+            fonts: [{ name: 'Roboto', data: new ArrayBuffer(1) }],
+            emoji: 'twemoji',
+            fallbackFonts: { ja: { name: 'Brand JP', data: new ArrayBuffer(1) } },
+            onMissingGlyphs: vi.fn(),
+        })
+
+        const [, fonts, ignore] = vi.mocked(analyzeCoverage).mock.calls[0]!
+        expect(fonts.map((font) => font.name)).toEqual(['Roboto', 'Brand JP'])
+        expect(ignore?.('😀')).toBe(true)
+        expect(ignore?.('あ')).toBe(false)
+    })
+
+    it('is not called when every character is covered', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const onMissingGlyphs = vi.fn()
+
+        await renderToSvg(React.createElement('div', null, 'Test'), { onMissingGlyphs })
+
+        expect(onMissingGlyphs).not.toHaveBeenCalled()
+    })
+})
+
+describe('providers', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('passes the font provider and fetch to font loading', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { resolveFont } = await import('../src/font')
+        const fontProvider = { name: 'fake', load: vi.fn() }
+        const fetch = vi.fn()
+
+        await renderToSvg(React.createElement('div', null, 'Test'), {
+            fonts: [{ name: 'Brand', weight: 700 }],
+            fontProvider,
+            fetch,
+        })
+
+        expect(resolveFont).toHaveBeenCalledWith(
+            { name: 'Brand', weight: 700 },
+            expect.objectContaining({ fontProvider, fetch })
+        )
+    })
+
+    it('fetches emoji from emojiBaseUrl with a custom fetch', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const satori = (await import('satori')).default
+        const globalFetch = vi.fn()
+        vi.stubGlobal('fetch', globalFetch)
+        const fetch = vi.fn().mockResolvedValue(new Response('<svg/>', { status: 200 }))
+
+        await renderToSvg(React.createElement('div', null, '👋'), {
+            emoji: 'twemoji',
+            emojiBaseUrl: 'https://assets.example.com/',
+            fetch,
+        })
+        const { loadAdditionalAsset } = vi.mocked(satori).mock.calls[0][1] as any
+
+        await expect(loadAdditionalAsset('emoji', '👋')).resolves.toMatch(
+            /^data:image\/svg\+xml;base64,/
+        )
+        expect(fetch.mock.calls[0][0]).toBe(
+            'https://assets.example.com/gh/twitter/twemoji@latest/assets/svg/1f44b.svg'
+        )
+        expect(globalFetch).not.toHaveBeenCalled()
+    })
+})
+
+describe('emojiPack', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('loads emoji from the pack without emoji set', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const satori = (await import('satori')).default
+        const fetchMock = vi.fn()
+        vi.stubGlobal('fetch', fetchMock)
+
+        await renderToSvg(React.createElement('div', null, '👋🏽'), {
+            emojiPack: { '👋🏽': 'data:image/svg+xml;base64,AAAA' },
+        })
+        const { loadAdditionalAsset } = vi.mocked(satori).mock.calls[0][1] as any
+
+        await expect(loadAdditionalAsset('emoji', '👋🏽')).resolves.toBe(
+            'data:image/svg+xml;base64,AAAA'
+        )
+        await expect(loadAdditionalAsset('emoji', '🎉')).resolves.toBe('')
+        expect(fetchMock).not.toHaveBeenCalled()
+    })
+})
+
+describe('loadAsset', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('is asked before the built-in emoji and fallback fonts', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const { resolveFont } = await import('../src/font')
+        const satori = (await import('satori')).default
+        const fetchMock = vi.fn().mockResolvedValue(new Response('<svg/>', { status: 200 }))
+        vi.stubGlobal('fetch', fetchMock)
+        const brand = { name: 'Brand JP', data: new ArrayBuffer(1) }
+        const loadAsset = vi.fn((code: string, segment: string) => {
+            if (segment === '★') return 'data:image/svg+xml;base64,AAAA'
+            if (code === 'ja-JP') return [brand]
+            return undefined
+        })
+
+        await renderToSvg(React.createElement('div', null, 'Test'), {
+            emoji: 'twemoji',
+            emojiBaseUrl: 'https://load-asset.example.com',
+            loadAsset,
+        })
+        const { loadAdditionalAsset } = vi.mocked(satori).mock.calls[0][1] as any
+
+        await expect(loadAdditionalAsset('emoji', '★')).resolves.toBe(
+            'data:image/svg+xml;base64,AAAA'
+        )
+        await expect(loadAdditionalAsset('ja-JP', 'あ')).resolves.toEqual([
+            expect.objectContaining({ name: 'Brand JP' }),
+        ])
+        expect(resolveFont).toHaveBeenCalledWith(brand, expect.anything())
+        expect(fetchMock).not.toHaveBeenCalled()
+
+        await loadAdditionalAsset('emoji', '👋')
+        expect(loadAsset).toHaveBeenCalledWith('emoji', '👋')
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('replaces :name: tokens with the images it returns', async () => {
+        const { renderToSvg } = await import('../src/render')
+        const satori = (await import('satori')).default
+        const loadAsset = vi.fn((code: string, name: string) =>
+            code === 'icon' && name === 'check' ? 'data:image/svg+xml;base64,AAAA' : undefined
+        )
+
+        await renderToSvg(React.createElement('div', null, 'Done :check:'), { loadAsset })
+
+        const tree = vi.mocked(satori).mock.calls[0][0] as any
+        expect(loadAsset).toHaveBeenCalledWith('icon', 'check')
+        expect(tree.props.children.props.children[1]).toMatchObject({
+            type: 'img',
+            props: { src: 'data:image/svg+xml;base64,AAAA' },
+        })
+    })
+})
@@ -1,6 +1,17 @@
 import { describe, it, expect, vi } from 'vitest'
 import { createOgImage } from '../src/vahlcode/index'
 
+// Mock the render pipeline to avoid real font fetches and rasterization
+vi.mock('../src/render', () => ({
+    CONTENT_TYPES: { png: 'image/png' },
+    renderImage: vi.fn().mockResolvedValue({
+        data: new Uint8Array([137, 80, 78, 71]),
+        format: 'png',
+        contentType: 'image/png',
+    }),
+    renderFallbackCard: vi.fn(),
+}))
+
 describe('createOgImage', () => {
     it('returns a route configuration object compatible with createFileRoute', async () => {
         const render = vi.fn().mockResolvedValue({ type: 'div', props: {}, key: null })
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@resvg/resvg-wasm', () => ({
+    initWasm: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('../src/resvg-wasm', () => ({
+    resvgWasm: 'AGFzbQ==',
+}))
+
+describe('initOg', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        // initOg keeps module-level state, so load a fresh copy per test
+        vi.resetModules()
+    })
+
+    it('initializes from the inlined binary when no wasm is given', async () => {
+        const { initOg } = await import('../src/wasm')
+        const { initWasm } = await import('@resvg/resvg-wasm')
+
+        await initOg()
+
+        expect(initWasm).toHaveBeenCalledTimes(1)
+        const bytes = vi.mocked(initWasm).mock.calls[0][0] as Uint8Array
+        expect(Array.from(bytes)).toEqual([0, 97, 115, 109])
+    })
+
+    it('exports the decoded inlined binary from the opt-in entry', async () => {
+        const { initOg } = await import('../src/wasm')
+        const { resvgWasm } = await import('../src/wasm-inline')
+        const { initWasm } = await import('@resvg/resvg-wasm')
+
+        await initOg({ wasm: resvgWasm })
+
+        expect(Array.from(resvgWasm)).toEqual([0, 97, 115, 109])
+        expect(initWasm).toHaveBeenCalledWith(resvgWasm)
+    })
+
+    it('passes a provided wasm source straight to initWasm', async () => {
+        const { initOg } = await import('../src/wasm')
+        const { initWasm } = await import('@resvg/resvg-wasm')
+        const url = new URL('https://cdn.example.com/resvg.wasm')
+
+        await initOg({ wasm: url })
+
+        expect(initWasm).toHaveBeenCalledWith(url)
+    })
+
+    it('initializes only once across concurrent and repeated calls', async () => {
+        const { initOg } = await import('../src/wasm')
+        const { initWasm } = await import('@resvg/resvg-wasm')
+
+        await Promise.all([initOg(), initOg(), initOg()])
+        await initOg({ wasm: new Uint8Array([1]) })
+
+        expect(initWasm).toHaveBeenCalledTimes(1)
+    })
+
+    it('reports init failures and allows a retry', async () => {
+        const { initOg } = await import('../src/wasm')
+        const { initWasm } = await import('@resvg/resvg-wasm')
+        vi.mocked(initWasm).mockRejectedValueOnce(new Error('invalid magic number'))
+
+        await expect(initOg()).rejects.toThrow(
+            'Failed to initialize resvg-wasm: invalid magic number'
+        )
+
+        await expect(initOg()).resolves.toBeUndefined()
+        expect(initWasm).toHaveBeenCalledTimes(2)
+    })
+})
@@ -1,16 +1,50 @@
-import { defineConfig } from 'tsup'
+import path from 'node:path'
+import { defineConfig, type Options } from 'tsup'
 
-export default defineConfig({
-    entry: {
-        index: 'src/index.ts',
-        'vahlcode/index': 'src/vahlcode/index.ts',
-    },
+const shared: Options = {
     format: ['esm', 'cjs'],
-    dts: true,
     splitting: true,
-    clean: true,
     target: 'node18',
-    outDir: 'dist',
-    external: ['react', 'satori', '@resvg/resvg-js', 'sharp'],
+    external: ['react', 'satori', '@resvg/resvg-js', 'sharp', '@jsquash/webp', '@jsquash/avif'],
+    // Keep `node:` specifiers so bundlers recognize them as built-ins
+    removeNodeProtocol: false,
     treeshake: true,
-})
+}
+
+export default defineConfig([
+    {
+        ...shared,
+        entry: {
+            index: 'src/index.ts',
+            'vahlcode/index': 'src/vahlcode/index.ts',
+            'wasm-inline': 'src/wasm-inline.ts',
+        },
+        dts: true,
+        clean: ['**/*', '!edge/**'],
+        outDir: 'dist',
+        platform: 'node',
+        // `import.meta.url` for resolving package files in the CommonJS build
+        shims: true,
+    },
+    {
+        // Edge runtimes: the same entries without any `node:` import
+        ...shared,
+        entry: {
+            index: 'src/index.ts',
+            'vahlcode/index': 'src/vahlcode/index.ts',
+        },
+        clean: true,
+        outDir: 'dist/edge',
+        platform: 'neutral',
+        esbuildPlugins: [
+            {
+                name: 'edge-runtime',
+                setup(build) {
+                    build.onResolve({ filter: /^\.\/runtime$/ }, (args) => ({
+                        path: path.join(args.resolveDir, 'runtime.edge.ts'),
+                    }))
+                },
+            },
+        ],
+    },
+])
@@ -4,6 +4,10 @@ export default defineConfig({
     test: {
         globals: true,
         environment: 'node',
+        // Worker threads, not child processes: the forks pool passes
+        // messages through the global `Buffer`, which the edge runtime
+        // tests remove.
+        pool: 'threads',
         include: ['test/**/*.test.ts'],
         coverage: {
             provider: 'v8',